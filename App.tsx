@@ -1,26 +1,20 @@
 import React, { useState, useEffect } from 'react';
 import { Upload, Video, Ratio, Settings2, Maximize2, AlertCircle, Globe } from 'lucide-react';
 import VideoEditor from './components/VideoEditor';
-import { AspectRatio, ScaleMode, VideoConfig } from './types';
+import BatchQueue from './components/BatchQueue';
+import { AspectRatio, ScaleMode, VideoConfig, ProcessingState, QueueItem } from './types';
 import { translations } from './translations';
+import { DEFAULT_VIDEO_CONFIG } from './services/videoConfig';
 
 const App = () => {
   const [file, setFile] = useState<File | null>(null);
+  const [queue, setQueue] = useState<QueueItem[]>([]);
   const [pasteError, setPasteError] = useState<string | null>(null);
   const [language, setLanguage] = useState<'en' | 'pt'>('pt'); // Default to PT as requested
   
   const t = translations[language];
 
-  const [config, setConfig] = useState<VideoConfig>({
-    aspectRatio: AspectRatio.PORTRAIT,
-    scaleMode: ScaleMode.CONTAIN,
-    backgroundColor: '#000000',
-    useAIBackground: false,
-    aiPrompt: 'Cosmic nebula with purple and blue hues',
-    customWidth: 1920,
-    customHeight: 1080,
-    maintainAspectRatio: true,
-  });
+  const [config, setConfig] = useState<VideoConfig>(DEFAULT_VIDEO_CONFIG);
 
   // Helper to process file and extract dimensions
   const processAndSetFile = (videoFile: File) => {
@@ -36,7 +30,13 @@ const App = () => {
         ...prev,
         customWidth: video.videoWidth,
         customHeight: video.videoHeight,
-        maintainAspectRatio: true
+        maintainAspectRatio: true,
+        // Trim points, source crop, crop path and captions belong to the previous file
+        trimStart: undefined,
+        trimEnd: undefined,
+        sourceCrop: null,
+        focalPath: [],
+        subtitles: []
       }));
       
       setFile(videoFile);
@@ -49,6 +49,41 @@ const App = () => {
     };
   };
 
+  const addToQueue = (videoFiles: File[]) => {
+    setQueue(prev => [
+      ...prev,
+      ...videoFiles.map(videoFile => ({
+        id: crypto.randomUUID(),
+        file: videoFile,
+        status: ProcessingState.QUEUED,
+        progress: 0,
+        overrides: {},
+        results: [],
+      })),
+    ]);
+    // Queue items always export the whole file with a centred crop and no captions;
+    // a source crop belongs to the file it was drawn on
+    setConfig(prev => ({ ...prev, trimStart: undefined, trimEnd: undefined, sourceCrop: null, focalPath: [], subtitles: [] }));
+    setFile(null);
+    setPasteError(null);
+  };
+
+  // A single video opens the editor; several (or more while a queue exists) go to the batch queue
+  const handleFiles = (files: File[]) => {
+    const videoFiles = files.filter(f => f.type.startsWith('video/'));
+    if (videoFiles.length === 0) {
+      setPasteError("The pasted content is not a supported video file.");
+      setTimeout(() => setPasteError(null), 4000);
+      return;
+    }
+
+    if (videoFiles.length === 1 && queue.length === 0) {
+      processAndSetFile(videoFiles[0]);
+    } else {
+      addToQueue(videoFiles);
+    }
+  };
+
   // Handle Ctrl+V (Paste) functionality
   useEffect(() => {
     const handlePaste = (e: ClipboardEvent) => {
@@ -56,14 +91,7 @@ const App = () => {
       if ((e.target as HTMLElement).tagName === 'INPUT') return;
 
       if (e.clipboardData && e.clipboardData.files.length > 0) {
-        const pastedFile = e.clipboardData.files[0];
-        
-        if (pastedFile.type.startsWith('video/')) {
-          processAndSetFile(pastedFile);
-        } else {
-          setPasteError("The pasted content is not a supported video file.");
-          setTimeout(() => setPasteError(null), 4000);
-        }
+        handleFiles(Array.from(e.clipboardData.files));
       } else {
          if (!file) {
              if (e.clipboardData?.items.length) {
@@ -78,33 +106,39 @@ const App = () => {
     return () => {
       document.removeEventListener('paste', handlePaste);
     };
-  }, [file]);
+  }, [file, queue]);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      processAndSetFile(e.target.files[0]);
+    if (e.target.files && e.target.files.length > 0) {
+      handleFiles(Array.from(e.target.files));
     }
   };
 
   const handleReset = () => {
     setFile(null);
+    setQueue([]);
     setPasteError(null);
-    setConfig({
-        aspectRatio: AspectRatio.PORTRAIT,
-        scaleMode: ScaleMode.CONTAIN,
-        backgroundColor: '#000000',
-        useAIBackground: false,
-        aiPrompt: 'Cosmic nebula with purple and blue hues',
-        customWidth: 1920,
-        customHeight: 1080,
-        maintainAspectRatio: true,
-    });
+    setConfig(DEFAULT_VIDEO_CONFIG);
   };
 
   if (file) {
     return <VideoEditor file={file} config={config} onConfigChange={setConfig} onReset={handleReset} t={t} />;
   }
 
+  if (queue.length > 0) {
+    return (
+      <BatchQueue
+        items={queue}
+        onItemsChange={setQueue}
+        config={config}
+        onConfigChange={setConfig}
+        onAddFiles={handleFiles}
+        onReset={handleReset}
+        t={t}
+      />
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-900 text-white p-6 flex flex-col items-center justify-center relative">
       
@@ -231,6 +265,7 @@ const App = () => {
                     <input 
                         type="file" 
                         accept="video/*" 
+                        multiple
                         onChange={handleFileChange}
                         className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
                     />
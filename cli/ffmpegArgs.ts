@@ -0,0 +1,187 @@
+import { BackgroundFit, BackgroundType, Dimensions, OutputFormat, ScaleMode, VideoCodec, VideoConfig } from "../types";
+import { BACKDROP_SCALE, IMAGE_BACKGROUND_DIM } from "../services/compositor";
+import { OUTPUT_FORMATS } from "../services/containerMuxer";
+import { getVideoBitrate } from "../services/exportSettings";
+import { computeLayout } from "../services/layout";
+
+export interface SourceInfo extends Dimensions {
+  frameRate: number;
+  duration: number;
+  hasAudio: boolean;
+}
+
+export interface FfmpegJob {
+  args: string[];
+  // Settings the browser applies that this renderer can't
+  warnings: string[];
+}
+
+const VIDEO_ENCODERS: Record<VideoCodec, string> = {
+  [VideoCodec.H264]: "libx264",
+  [VideoCodec.HEVC]: "libx265",
+  [VideoCodec.VP9]: "libvpx-vp9",
+  [VideoCodec.VP8]: "libvpx",
+  [VideoCodec.AV1]: "libaom-av1",
+};
+
+const AUDIO_ENCODERS: Record<OutputFormat, string> = {
+  [OutputFormat.MP4]: "aac",
+  [OutputFormat.WEBM]: "libopus",
+};
+
+// yuv420p needs even sizes
+const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+const dimFilter = (amount: number) =>
+  amount > 0 ? `,drawbox=x=0:y=0:w=iw:h=ih:color=black@${amount}:t=fill` : "";
+
+// Scales to cover `size` (times `zoom`, even on both axes) and crops the centre, like fitRect(..., "cover")
+const coverFilter = ({ width, height }: Dimensions, zoom = 1) =>
+  `scale=${Math.ceil(width * zoom)}:${Math.ceil(height * zoom)}:force_original_aspect_ratio=increase,crop=${width}:${height}`;
+
+const getEncoder = (config: VideoConfig): string => {
+  const families = OUTPUT_FORMATS[config.outputFormat].videoCodecs.map(candidate => candidate.family);
+  const codec = config.videoCodec && families.includes(config.videoCodec) ? config.videoCodec : families[0];
+  return VIDEO_ENCODERS[codec];
+};
+
+export interface BackgroundFiles {
+  // Used by the AI, Extended Scene and Image background types
+  image: string | null;
+  // Looped behind the video for the Video background type
+  video: string | null;
+}
+
+// Fits an uploaded background into `size` like placeBackground, with the contain bars in `color`
+const fitFilter = (size: Dimensions, fit: BackgroundFit, color: string) => {
+  const { width, height } = size;
+  if (fit === "stretch") return `scale=${width}:${height}`;
+  if (fit === "cover") return coverFilter(size);
+  return `scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:color=${color}`;
+};
+
+// Blurs at BACKDROP_SCALE and upscales, like drawBackdrop
+const backdropFilter = (output: Dimensions, config: VideoConfig, fit: BackgroundFit, zoom: number, blur: number, dim: number) => {
+  const fitted = (size: Dimensions) => fit === "cover" ? coverFilter(size, zoom) : fitFilter(size, fit, config.backgroundColor);
+  if (blur <= 0) return `${fitted(output)}${dimFilter(dim)}`;
+  const small = { width: even(output.width * BACKDROP_SCALE), height: even(output.height * BACKDROP_SCALE) };
+  return `${fitted(small)},gblur=sigma=${blur * BACKDROP_SCALE},scale=${output.width}:${output.height}${dimFilter(dim)}`;
+};
+
+const IMAGE_BACKGROUNDS = [BackgroundType.AI, BackgroundType.EXTENDED_SCENE, BackgroundType.IMAGE];
+
+// Which background input the config draws, if any
+const getBackgroundInput = (config: VideoConfig, files: BackgroundFiles): string | null => {
+  if (config.scaleMode !== ScaleMode.CONTAIN) return null;
+  if (IMAGE_BACKGROUNDS.includes(config.backgroundType)) return files.image;
+  if (config.backgroundType === BackgroundType.VIDEO) return files.video;
+  return null;
+};
+
+/**
+ * Builds the filter graph that reproduces composeFrame's layout: input 0 is the video,
+ * input 1 (optional) the background image or video. The result is labelled [out].
+ */
+export const buildFilterGraph = (config: VideoConfig, source: SourceInfo, hasBackgroundInput: boolean): string => {
+  // ffmpeg can't follow a moving crop here, so the path's position at the in point is used
+  const layout = computeLayout(source, config, config.trimStart ?? 0);
+  const { video, crop } = layout;
+  // Custom sizes can be odd; every branch below draws into this even size instead
+  const output = { width: even(layout.output.width), height: even(layout.output.height) };
+  const fps = config.frameRate ? `,fps=${config.frameRate}` : "";
+  const finish = `setsar=1,format=yuv420p${fps}[out]`;
+  // The video input with the source crop applied, ready for the next filter
+  const picture = config.sourceCrop ? `[0:v]crop=${crop.width}:${crop.height}:${crop.x}:${crop.y},` : "[0:v]";
+
+  if (config.scaleMode === ScaleMode.STRETCH) {
+    return `${picture}scale=${output.width}:${output.height},${finish}`;
+  }
+
+  if (config.scaleMode === ScaleMode.COVER) {
+    // Rounding the output up to even can leave it a pixel wider than the scaled video
+    const width = Math.max(output.width, Math.ceil(video.width));
+    const height = Math.max(output.height, Math.ceil(video.height));
+    const x = Math.min(width - output.width, Math.max(0, Math.round(-video.x)));
+    const y = Math.min(height - output.height, Math.max(0, Math.round(-video.y)));
+    return `${picture}scale=${width}:${height},crop=${output.width}:${output.height}:${x}:${y},${finish}`;
+  }
+
+  const chains: string[] = [];
+  let foreground = picture;
+  const { backgroundType } = config;
+
+  if (backgroundType === BackgroundType.BLURRED_VIDEO) {
+    chains.push(`${picture}split[bgsrc][fgsrc]`);
+    foreground = "[fgsrc]";
+    const backdrop = backdropFilter(output, config, "cover", Math.max(1, config.backgroundZoom), config.backgroundBlur, config.backgroundDim);
+    chains.push(`[bgsrc]${backdrop}[bg]`);
+  } else if ((backgroundType === BackgroundType.IMAGE || backgroundType === BackgroundType.VIDEO) && hasBackgroundInput) {
+    const backdrop = backdropFilter(output, config, config.backgroundFit, 1, config.backgroundBlur, config.backgroundDim);
+    chains.push(`[1:v]${backdrop},setsar=1[bg]`);
+  } else if (backgroundType === BackgroundType.EXTENDED_SCENE && hasBackgroundInput) {
+    chains.push(`[1:v]${coverFilter(output)},setsar=1[bg]`);
+  } else if (backgroundType === BackgroundType.AI && hasBackgroundInput) {
+    chains.push(`[1:v]${coverFilter(output)}${dimFilter(IMAGE_BACKGROUND_DIM)}[bg]`);
+  } else {
+    chains.push(`color=c=${config.backgroundColor}:s=${output.width}x${output.height}:r=${config.frameRate ?? source.frameRate}[bg]`);
+  }
+
+  chains.push(`${foreground}scale=${even(video.width)}:${even(video.height)},setsar=1[fg]`);
+  chains.push(`[bg][fg]overlay=${Math.round(video.x)}:${Math.round(video.y)}:shortest=1,${finish}`);
+  return chains.join(";");
+};
+
+export const buildFfmpegJob = (
+  input: string,
+  outputPath: string,
+  config: VideoConfig,
+  source: SourceInfo,
+  backgroundFiles: BackgroundFiles
+): FfmpegJob => {
+  const warnings: string[] = [];
+  if (config.overlays.length > 0) warnings.push("logo and text layers are not rendered");
+  if (config.subtitles.length > 0) warnings.push("subtitles are not burned in");
+  if (config.audio.music) warnings.push("the music track is not mixed in");
+  if (Object.values(config.color).some(value => value !== 0) || config.lut) warnings.push("color grading is not applied");
+  if (config.focalPath.length > 1) warnings.push("the crop path is held at its starting position");
+  if (config.backgroundType === BackgroundType.GRADIENT) warnings.push("gradients are not rendered, using the background color");
+  if (config.backgroundType === BackgroundType.COLOR && config.autoBackgroundColor) warnings.push("the auto background color is not tracked, using the background color");
+  if (IMAGE_BACKGROUNDS.includes(config.backgroundType) && !backgroundFiles.image) {
+    warnings.push("no background image given, using the background color");
+  }
+  if (config.backgroundType === BackgroundType.VIDEO && !backgroundFiles.video) warnings.push("no background video given, using the background color");
+
+  const start = config.trimStart ?? 0;
+  const end = Math.min(config.trimEnd ?? source.duration, source.duration);
+  const { output } = computeLayout(source, config);
+  const bitrate = getVideoBitrate(config, output, config.frameRate ?? source.frameRate);
+  const backgroundInput = getBackgroundInput(config, backgroundFiles);
+  const loopInput = config.backgroundType === BackgroundType.VIDEO ? ["-stream_loop", "-1"] : ["-loop", "1"];
+
+  const { audio } = config;
+  const audioFilters = [
+    audio.originalGain !== 1 ? `volume=${audio.originalGain}` : "",
+    audio.fadeIn > 0 ? `afade=t=in:d=${audio.fadeIn}` : "",
+    audio.fadeOut > 0 ? `afade=t=out:st=${Math.max(0, end - start - audio.fadeOut)}:d=${audio.fadeOut}` : "",
+  ].filter(Boolean);
+  const withAudio = source.hasAudio && !audio.muteOriginal;
+
+  const args = [
+    "-hide_banner", "-loglevel", "error", "-stats", "-y",
+    ...(start > 0 ? ["-ss", String(start)] : []),
+    ...(end < source.duration ? ["-to", String(end)] : []),
+    "-i", input,
+    ...(backgroundInput ? [...loopInput, "-i", backgroundInput] : []),
+    "-filter_complex", buildFilterGraph(config, source, !!backgroundInput),
+    "-map", "[out]",
+    "-c:v", getEncoder(config),
+    "-b:v", String(bitrate),
+    ...(withAudio
+      ? ["-map", "0:a:0", "-c:a", AUDIO_ENCODERS[config.outputFormat], "-b:a", "128k", ...(audioFilters.length > 0 ? ["-filter:a", audioFilters.join(",")] : [])]
+      : ["-an"]),
+    ...(config.outputFormat === OutputFormat.MP4 ? ["-movflags", "+faststart"] : []),
+    outputPath,
+  ];
+
+  return { args, warnings };
+};
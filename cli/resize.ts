@@ -0,0 +1,256 @@
+import { spawn } from "node:child_process";
+import { existsSync } from "node:fs";
+import { mkdir, readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { VideoConfig } from "../types";
+import { DEFAULT_AUDIO_SETTINGS } from "../services/audioMix";
+import { DEFAULT_BACKGROUND_GRADIENT } from "../services/backgrounds";
+import { DEFAULT_COLOR_ADJUSTMENTS } from "../services/colorGrading";
+import { OUTPUT_FORMATS } from "../services/containerMuxer";
+import { getOutputDimensions, getTargetLabel } from "../services/exportTargets";
+import { DEFAULT_VIDEO_CONFIG, findInvalidSetting } from "../services/videoConfig";
+import { BackgroundFiles, buildFfmpegJob, SourceInfo } from "./ffmpegArgs";
+
+const USAGE = `Usage: npm run cli -- --config <config.json> [options] <input...>
+
+Renders every input with the same layout rules as the editor, encoded by ffmpeg.
+
+Inputs are files or glob patterns (*, ?, ** and {a,b}); quote them so the shell doesn't expand them.
+The config file holds one VideoConfig, or an array of them for several outputs per input.
+Fields left out take the editor's defaults.
+
+Options:
+  -c, --config <file>            VideoConfig JSON (required)
+  -o, --output <template>        Output path template (default: "resized/{name}-{ratio}.{ext}")
+                                 Tokens: {name} {dir} {ratio} {width} {height} {ext} {index}
+      --background-image <file>  Image behind the video for backgroundType "AI", "Image" or "Extended Scene"
+      --background-video <file>  Video looped behind the video for backgroundType "Video"
+      --ffmpeg <path>            ffmpeg binary (default: ffmpeg)
+      --ffprobe <path>           ffprobe binary (default: ffprobe)
+  -h, --help                     Show this help
+
+Exits with 1 if any input failed, 2 on invalid arguments or config.`;
+
+class UsageError extends Error {}
+
+const loadConfigs = async (file: string): Promise<VideoConfig[]> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(await readFile(file, "utf8"));
+  } catch (e) {
+    throw new UsageError(`Could not read config ${file}: ${e instanceof Error ? e.message : e}`);
+  }
+
+  const entries = Array.isArray(data) ? data : [data];
+  if (entries.length === 0) throw new UsageError("Config file has no entries.");
+
+  return entries.map((entry, i) => {
+    if (!entry || typeof entry !== "object") throw new UsageError(`Config entry ${i + 1} is not an object.`);
+    const config: VideoConfig = {
+      ...DEFAULT_VIDEO_CONFIG,
+      ...entry,
+      audio: { ...DEFAULT_AUDIO_SETTINGS, ...entry.audio, music: null },
+      color: { ...DEFAULT_COLOR_ADJUSTMENTS, ...entry.color },
+      lut: null,
+      backgroundGradient: { ...DEFAULT_BACKGROUND_GRADIENT, ...entry.backgroundGradient },
+      backgroundMedia: null,
+    };
+    const problem = findInvalidSetting(config);
+    if (problem) throw new UsageError(`Config entry ${i + 1}: ${problem}`);
+    return config;
+  });
+};
+
+// Converts a glob to a regex over "/"-separated paths
+const globToRegExp = (glob: string): RegExp => {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      const slash = glob[i + 2] === "/";
+      source += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (char === "*") source += "[^/]*";
+    else if (char === "?") source += "[^/]";
+    else if (char === "{") source += "(?:";
+    else if (char === "}") source += ")";
+    else if (char === ",") source += "|";
+    else source += char.replace(/[.+^$()|[\]\\]/g, "\\$&");
+  }
+  return new RegExp(`^${source}$`);
+};
+
+const walk = async (dir: string): Promise<string[]> => {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files = await Promise.all(entries.map(entry => {
+    const full = path.join(dir, entry.name);
+    return entry.isDirectory() ? walk(full) : Promise.resolve(entry.isFile() ? [full] : []);
+  }));
+  return files.flat();
+};
+
+const expandInput = async (pattern: string): Promise<string[]> => {
+  const normalized = pattern.split(path.sep).join("/");
+  if (!/[*?{]/.test(normalized)) return existsSync(pattern) ? [pattern] : [];
+
+  // Walk from the deepest directory without wildcards
+  const segments = normalized.split("/");
+  const firstMagic = segments.findIndex(segment => /[*?{]/.test(segment));
+  const base = segments.slice(0, firstMagic).join("/") || ".";
+  const matcher = globToRegExp(segments.slice(firstMagic).join("/"));
+  if (!existsSync(base)) return [];
+
+  const files = await walk(base);
+  return files
+    .filter(file => matcher.test(path.relative(base, file).split(path.sep).join("/")))
+    .sort();
+};
+
+const run = (command: string, args: string[], captureOutput: boolean): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ["ignore", captureOutput ? "pipe" : "inherit", "inherit"] });
+    let stdout = "";
+    child.stdout?.on("data", (chunk) => { stdout += chunk; });
+    child.on("error", (e) => reject(new Error(`Could not start ${command}: ${e.message}`)));
+    child.on("close", (code) => {
+      if (code === 0) resolve(stdout);
+      else reject(new Error(`${command} exited with code ${code}.`));
+    });
+  });
+};
+
+const parseFrameRate = (rate: string | undefined): number => {
+  const [num, den] = (rate ?? "").split("/").map(Number);
+  const fps = den ? num / den : num;
+  return Number.isFinite(fps) && fps > 0 ? fps : 30;
+};
+
+// The parts of ffprobe's JSON output that are read
+interface ProbeStream {
+  codec_type?: string;
+  width?: number;
+  height?: number;
+  avg_frame_rate?: string;
+  r_frame_rate?: string;
+  duration?: string;
+  tags?: { rotate?: string };
+  side_data_list?: { rotation?: number }[];
+}
+
+interface ProbeResult {
+  streams?: ProbeStream[];
+  format?: { duration?: string };
+}
+
+const probe = async (ffprobe: string, file: string): Promise<SourceInfo> => {
+  const json = await run(ffprobe, ["-v", "error", "-print_format", "json", "-show_streams", "-show_format", file], true);
+  const info: ProbeResult = JSON.parse(json);
+  const streams = info.streams ?? [];
+  const video = streams.find(stream => stream.codec_type === "video");
+  if (!video?.width || !video.height) throw new Error("No video stream found.");
+
+  // Phone footage stores portrait video as landscape plus a rotation
+  const rotation = Number(video.tags?.rotate ?? video.side_data_list?.find(data => data.rotation !== undefined)?.rotation ?? 0);
+  const rotated = Math.abs(rotation) % 180 === 90;
+
+  return {
+    width: rotated ? video.height : video.width,
+    height: rotated ? video.width : video.height,
+    frameRate: parseFrameRate(video.avg_frame_rate || video.r_frame_rate),
+    duration: Number(info.format?.duration ?? video.duration ?? 0),
+    hasAudio: streams.some(stream => stream.codec_type === "audio"),
+  };
+};
+
+const fillTemplate = (template: string, tokens: Record<string, string>) =>
+  template.replace(/\{(\w+)\}/g, (match, key: string) => tokens[key] ?? match);
+
+const main = async (): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      config: { type: "string", short: "c" },
+      output: { type: "string", short: "o", default: "resized/{name}-{ratio}.{ext}" },
+      "background-image": { type: "string" },
+      "background-video": { type: "string" },
+      ffmpeg: { type: "string", default: "ffmpeg" },
+      ffprobe: { type: "string", default: "ffprobe" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (!values.config || positionals.length === 0) throw new UsageError(USAGE);
+
+  const configs = await loadConfigs(values.config);
+  const backgroundFiles: BackgroundFiles = {
+    image: values["background-image"] ?? null,
+    video: values["background-video"] ?? null,
+  };
+  if (backgroundFiles.image && !existsSync(backgroundFiles.image)) throw new UsageError(`Background image not found: ${backgroundFiles.image}`);
+  if (backgroundFiles.video && !existsSync(backgroundFiles.video)) throw new UsageError(`Background video not found: ${backgroundFiles.video}`);
+
+  const inputs = [...new Set((await Promise.all(positionals.map(expandInput))).flat())];
+  if (inputs.length === 0) throw new UsageError("No input files matched.");
+
+  const usedPaths = new Set<string>();
+  let failures = 0;
+
+  for (const input of inputs) {
+    let source: SourceInfo;
+    try {
+      source = await probe(values.ffprobe!, input);
+    } catch (e) {
+      console.error(`✗ ${input}: ${e instanceof Error ? e.message : e}`);
+      failures += configs.length;
+      continue;
+    }
+
+    for (const [index, config] of configs.entries()) {
+      const { width, height } = getOutputDimensions(config);
+      let outputPath = fillTemplate(values.output!, {
+        name: path.parse(input).name,
+        dir: path.dirname(input),
+        ratio: getTargetLabel(config).replace(":", "x"),
+        width: String(width),
+        height: String(height),
+        ext: OUTPUT_FORMATS[config.outputFormat].extension,
+        index: String(index + 1),
+      });
+      // Two outputs on the same path would overwrite each other
+      if (usedPaths.has(outputPath)) {
+        const parsed = path.parse(outputPath);
+        outputPath = path.join(parsed.dir, `${parsed.name}-${index + 1}${parsed.ext}`);
+      }
+      usedPaths.add(outputPath);
+
+      const job = buildFfmpegJob(input, outputPath, config, source, backgroundFiles);
+      job.warnings.forEach(warning => console.warn(`! ${input}: ${warning}`));
+
+      try {
+        await mkdir(path.dirname(outputPath), { recursive: true });
+        await run(values.ffmpeg!, job.args, false);
+        console.log(`✓ ${input} → ${outputPath}`);
+      } catch (e) {
+        console.error(`✗ ${input} → ${outputPath}: ${e instanceof Error ? e.message : e}`);
+        failures++;
+      }
+    }
+  }
+
+  if (failures > 0) console.error(`${failures} output(s) failed.`);
+  return failures > 0 ? 1 : 0;
+};
+
+main().then(
+  (code) => { process.exitCode = code; },
+  (e) => {
+    console.error(e instanceof Error ? e.message : e);
+    const parseError = e instanceof Error && "code" in e && typeof e.code === "string" && e.code.startsWith("ERR_PARSE_ARGS");
+    process.exitCode = e instanceof UsageError || parseError ? 2 : 1;
+  }
+);
@@ -0,0 +1,87 @@
+import React from 'react';
+import { AudioSettings, VideoConfig } from '../types';
+import { Music, Upload, Volume2, X } from 'lucide-react';
+
+interface AudioMixerProps {
+  config: VideoConfig;
+  onConfigChange: (config: VideoConfig) => void;
+  disabled: boolean;
+  t: any; // Using any for simplicity with the translations object
+}
+
+const AudioMixer: React.FC<AudioMixerProps> = ({ config, onConfigChange, disabled, t }) => {
+  const audio = config.audio;
+
+  const update = (changes: Partial<AudioSettings>) => {
+    onConfigChange({ ...config, audio: { ...audio, ...changes } });
+  };
+
+  const handleMusic = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) update({ music: file });
+  };
+
+  const slider = (label: string, value: number, min: number, max: number, step: number, format: string, onChange: (value: number) => void, isDisabled = disabled) => (
+    <label className="flex items-center gap-2 text-xs text-gray-400">
+      <span className="w-16">{label}</span>
+      <input type="range" min={min} max={max} step={step} disabled={isDisabled} value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="flex-1 h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500 disabled:opacity-30" />
+      <span className="w-10 text-right font-mono text-gray-300">{format}</span>
+    </label>
+  );
+
+  return (
+    <div className="border-t border-gray-700 pt-4 mt-4">
+      <label className="text-xs text-gray-400 mb-2 block flex items-center gap-2">
+        <Volume2 className="w-3 h-3" /> {t.audio}
+      </label>
+
+      <div className="bg-gray-700/50 p-2 rounded-lg border border-gray-600 space-y-2">
+        {slider(t.originalVolume, audio.originalGain, 0, 2, 0.05, `${Math.round(audio.originalGain * 100)}%`,
+          (originalGain) => update({ originalGain }), disabled || audio.muteOriginal)}
+
+        <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+          <input type="checkbox" checked={audio.muteOriginal} disabled={disabled}
+            onChange={(e) => update({ muteOriginal: e.target.checked })}
+            className="accent-blue-500" />
+          {t.muteOriginal}
+        </label>
+
+        {audio.music ? (
+          <div className="flex items-center gap-2 bg-gray-900 p-1.5 rounded-lg border border-gray-600">
+            <Music className="w-3 h-3 text-gray-400" />
+            <span className="text-xs text-white font-mono flex-1 truncate">{audio.music.name}</span>
+            <button onClick={() => update({ music: null })} disabled={disabled} className="text-gray-400 hover:text-red-400 disabled:opacity-30">
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        ) : (
+          <label className={`w-full py-1.5 bg-gray-900 hover:bg-gray-800 border border-gray-600 text-gray-200 rounded-lg text-xs font-medium transition-colors flex items-center justify-center gap-2 ${disabled ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+            <Upload className="w-3 h-3" /> {t.addMusic}
+            <input type="file" accept="audio/*" className="hidden" disabled={disabled} onChange={handleMusic} />
+          </label>
+        )}
+
+        {audio.music && (
+          <>
+            {slider(t.musicVolume, audio.musicGain, 0, 2, 0.05, `${Math.round(audio.musicGain * 100)}%`,
+              (musicGain) => update({ musicGain }))}
+            <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+              <input type="checkbox" checked={audio.ducking} disabled={disabled || audio.muteOriginal}
+                onChange={(e) => update({ ducking: e.target.checked })}
+                className="accent-blue-500" />
+              {t.ducking}
+            </label>
+          </>
+        )}
+
+        {slider(t.fadeIn, audio.fadeIn, 0, 5, 0.1, `${audio.fadeIn.toFixed(1)}s`, (fadeIn) => update({ fadeIn }))}
+        {slider(t.fadeOut, audio.fadeOut, 0, 5, 0.1, `${audio.fadeOut.toFixed(1)}s`, (fadeOut) => update({ fadeOut }))}
+      </div>
+    </div>
+  );
+};
+
+export default AudioMixer;
@@ -0,0 +1,80 @@
+import React, { useEffect, useState } from 'react';
+import { GeneratedBackground } from '../types';
+import { History, RotateCcw, Trash2 } from 'lucide-react';
+
+interface BackgroundGalleryProps {
+  entries: GeneratedBackground[];
+  selectedId: string | null;
+  // Ratio the current output would be generated at; other ratios are listed after it
+  aspectRatio: string;
+  onSelect: (entry: GeneratedBackground) => void;
+  onReusePrompt: (entry: GeneratedBackground) => void;
+  onDelete: (entry: GeneratedBackground) => void;
+  disabled: boolean;
+  t: any; // Using any for simplicity with the translations object
+}
+
+const BackgroundGallery: React.FC<BackgroundGalleryProps> = ({ entries, selectedId, aspectRatio, onSelect, onReusePrompt, onDelete, disabled, t }) => {
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    const urls = Object.fromEntries(entries.map(entry => [entry.id, URL.createObjectURL(entry.image)]));
+    setThumbnails(urls);
+    return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+  }, [entries]);
+
+  if (entries.length === 0) return null;
+
+  const sorted = [
+    ...entries.filter(entry => entry.aspectRatio === aspectRatio),
+    ...entries.filter(entry => entry.aspectRatio !== aspectRatio),
+  ];
+
+  return (
+    <div className="space-y-1">
+      <label className="text-xs text-gray-400 flex items-center gap-2">
+        <History className="w-3 h-3" /> {t.backgroundGallery}
+      </label>
+      <div className="grid grid-cols-3 gap-2 max-h-56 overflow-y-auto pr-1">
+        {sorted.map(entry => (
+          <div
+            key={entry.id}
+            className={`group relative rounded-md overflow-hidden border-2 bg-gray-900 ${entry.id === selectedId ? 'border-indigo-500' : 'border-transparent'}`}
+            title={entry.prompt}
+          >
+            <button
+              onClick={() => onSelect(entry)}
+              disabled={disabled}
+              className="block w-full aspect-square disabled:opacity-50"
+            >
+              {thumbnails[entry.id] && <img src={thumbnails[entry.id]} alt={entry.prompt} className="w-full h-full object-cover" />}
+            </button>
+            <span className={`absolute bottom-0 left-0 px-1 text-[10px] font-mono ${entry.aspectRatio === aspectRatio ? 'bg-indigo-600 text-white' : 'bg-black/60 text-gray-300'}`}>
+              {entry.aspectRatio}
+            </span>
+            <div className="absolute top-0 right-0 flex opacity-0 group-hover:opacity-100 transition-opacity">
+              <button
+                onClick={() => onReusePrompt(entry)}
+                disabled={disabled}
+                className="p-1 bg-black/60 text-gray-200 hover:text-white"
+                title={t.reusePrompt}
+              >
+                <RotateCcw className="w-3 h-3" />
+              </button>
+              <button
+                onClick={() => onDelete(entry)}
+                disabled={disabled}
+                className="p-1 bg-black/60 text-gray-200 hover:text-red-400"
+                title={t.deleteBackground}
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BackgroundGallery;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { BACKGROUND_FITS, BackgroundFit, BackgroundType, VideoConfig } from '../types';
+import { Loader2, Upload, X } from 'lucide-react';
+
+interface BackgroundMediaPickerProps {
+  config: VideoConfig;
+  onConfigChange: (config: VideoConfig) => void;
+  disabled: boolean;
+  // True while the chosen file is being decoded
+  isLoading: boolean;
+  error: string | null;
+  t: any; // Using any for simplicity with the translations object
+}
+
+const BackgroundMediaPicker: React.FC<BackgroundMediaPickerProps> = ({ config, onConfigChange, disabled, isLoading, error, t }) => {
+  const isVideo = config.backgroundType === BackgroundType.VIDEO;
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onConfigChange({ ...config, backgroundMedia: file });
+  };
+
+  return (
+    <div className="space-y-2 bg-gray-700/50 p-2 rounded-lg border border-gray-600">
+      {config.backgroundMedia ? (
+        <div className="flex items-center gap-2 bg-gray-900 p-1.5 rounded-lg border border-gray-600">
+          {isLoading && <Loader2 className="w-3 h-3 animate-spin text-gray-400" />}
+          <span className="text-xs text-white font-mono flex-1 truncate">
+            {isLoading ? t.loadingBackground : config.backgroundMedia.name}
+          </span>
+          <button onClick={() => onConfigChange({ ...config, backgroundMedia: null })} disabled={disabled} className="text-gray-400 hover:text-red-400 disabled:opacity-30">
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      ) : (
+        <label className={`w-full py-1.5 bg-gray-900 hover:bg-gray-800 border border-gray-600 text-gray-200 rounded-lg text-xs font-medium transition-colors flex items-center justify-center gap-2 ${disabled ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+          <Upload className="w-3 h-3" /> {isVideo ? t.uploadBackgroundVideo : t.uploadBackgroundImage}
+          <input type="file" accept={isVideo ? 'video/*' : 'image/*'} className="hidden" disabled={disabled} onChange={handleFile} />
+        </label>
+      )}
+
+      <label className="flex items-center gap-2 text-xs text-gray-400">
+        <span className="w-16">{t.fit}</span>
+        <select
+          value={config.backgroundFit}
+          disabled={disabled}
+          onChange={(e) => onConfigChange({ ...config, backgroundFit: e.target.value as BackgroundFit })}
+          className="flex-1 bg-gray-900 border border-gray-600 rounded-md px-2 py-1 text-xs text-white focus:outline-none focus:border-blue-500"
+        >
+          {BACKGROUND_FITS.map(fit => <option key={fit} value={fit}>{t.fits[fit]}</option>)}
+        </select>
+      </label>
+
+      {([
+        { key: 'backgroundBlur', label: t.blurRadius, min: 0, max: 100, step: 1, format: (v: number) => `${v}px` },
+        { key: 'backgroundDim', label: t.dimAmount, min: 0, max: 0.9, step: 0.05, format: (v: number) => `${Math.round(v * 100)}%` },
+      ] as const).map(({ key, label, min, max, step, format }) => (
+        <label key={key} className="flex items-center gap-2 text-xs text-gray-400">
+          <span className="w-16">{label}</span>
+          <input type="range" min={min} max={max} step={step} disabled={disabled} value={config[key]}
+            onChange={(e) => onConfigChange({ ...config, [key]: parseFloat(e.target.value) })}
+            className="flex-1 h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500 disabled:opacity-30" />
+          <span className="w-10 text-right font-mono text-gray-300">{format(config[key])}</span>
+        </label>
+      ))}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default BackgroundMediaPicker;
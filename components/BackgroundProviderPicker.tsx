@@ -0,0 +1,42 @@
+import React from 'react';
+import { BackgroundProviderId, BackgroundProviderSettings } from '../services/backgroundProvider';
+import { Server } from 'lucide-react';
+
+interface BackgroundProviderPickerProps {
+  settings: BackgroundProviderSettings;
+  onChange: (settings: BackgroundProviderSettings) => void;
+  disabled: boolean;
+  t: any; // Using any for simplicity with the translations object
+}
+
+const PROVIDERS: BackgroundProviderId[] = ['gemini', 'local', 'mock'];
+
+const BackgroundProviderPicker: React.FC<BackgroundProviderPickerProps> = ({ settings, onChange, disabled, t }) => (
+  <div className="space-y-2">
+    <label className="flex items-center gap-2 text-xs text-gray-400">
+      <Server className="w-3 h-3" />
+      <span className="w-16">{t.provider}</span>
+      <select
+        value={settings.provider}
+        disabled={disabled}
+        onChange={(e) => onChange({ ...settings, provider: e.target.value as BackgroundProviderId })}
+        className="flex-1 bg-gray-900 border border-gray-600 rounded-md px-2 py-1 text-xs text-white focus:outline-none focus:border-indigo-500"
+      >
+        {PROVIDERS.map(provider => <option key={provider} value={provider}>{t.providers[provider]}</option>)}
+      </select>
+    </label>
+    {settings.provider === 'local' && (
+      <input
+        type="url"
+        value={settings.localEndpoint}
+        disabled={disabled}
+        onChange={(e) => onChange({ ...settings, localEndpoint: e.target.value })}
+        placeholder={t.localEndpoint}
+        title={t.localEndpoint}
+        className="w-full bg-gray-900 border border-gray-600 rounded-md px-2 py-1 text-xs text-white font-mono focus:outline-none focus:border-indigo-500"
+      />
+    )}
+  </div>
+);
+
+export default BackgroundProviderPicker;
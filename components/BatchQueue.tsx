@@ -0,0 +1,342 @@
+import React, { useRef, useEffect, useState } from 'react';
+import { AspectRatio, BackgroundType, ProcessingState, QueueItem, ScaleMode, VideoConfig, OutputFormat } from '../types';
+import { runExportJob } from '../services/exportJob';
+import { BackgroundClip, disposeBackgroundMedia, loadBackgroundMedia } from '../services/backgrounds';
+import { loadScenePlate } from '../services/backgroundHistory';
+import { getGenerationAspectRatio } from '../services/backgroundGenerator';
+import { getScenePlateKey } from '../services/sceneExtension';
+import { createZipArchive, getOutputDimensions, triggerDownload } from '../services/exportTargets';
+import PresetPicker from './PresetPicker';
+import { AlertTriangle, Archive, Download, Loader2, Play, Plus, RotateCcw, SkipForward, Trash2, CheckCircle2, AlertCircle, Clock, ListVideo } from 'lucide-react';
+
+interface BatchQueueProps {
+  items: QueueItem[];
+  onItemsChange: React.Dispatch<React.SetStateAction<QueueItem[]>>;
+  config: VideoConfig;
+  onConfigChange: (config: VideoConfig) => void;
+  onAddFiles: (files: File[]) => void;
+  onReset: () => void;
+  t: any; // Using any for simplicity with the translations object
+}
+
+const BatchQueue: React.FC<BatchQueueProps> = ({ items, onItemsChange, config, onConfigChange, onAddFiles, onReset, t }) => {
+  // Ref so the sequential runner always sees the latest queue (skips, removals, retries)
+  const itemsRef = useRef<QueueItem[]>(items);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isZipping, setIsZipping] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  useEffect(() => {
+    itemsRef.current = items;
+  }, [items]);
+
+  // Result URLs still in the queue; ones dropped by a removal, retry or reset are released
+  const resultUrlsRef = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    const current = new Set(items.flatMap(item => item.results.map(result => result.url)));
+    resultUrlsRef.current.forEach(url => { if (!current.has(url)) URL.revokeObjectURL(url); });
+    resultUrlsRef.current = current;
+  }, [items]);
+  useEffect(() => () => resultUrlsRef.current.forEach(url => URL.revokeObjectURL(url)), []);
+
+  const updateItem = (id: string, patch: Partial<QueueItem>) => {
+    onItemsChange(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item));
+  };
+
+  const runQueue = async () => {
+    setIsRunning(true);
+    setErrorMsg(null);
+
+    // An uploaded background is decoded once and shared by every item
+    let backgroundImage: ImageBitmap | BackgroundClip | null = null;
+    try {
+      backgroundImage = await loadBackgroundMedia(config);
+    } catch (err) {
+      setErrorMsg(err instanceof Error ? err.message : t.backgroundLoadFailed);
+      setIsRunning(false);
+      return;
+    }
+
+    let next = itemsRef.current.find(item => item.status === ProcessingState.QUEUED);
+    while (next) {
+      const item = next;
+      updateItem(item.id, { status: ProcessingState.RECORDING, progress: 0, error: undefined });
+
+      let plateImage: ImageBitmap | null = null;
+      try {
+        const itemConfig = { ...config, ...item.overrides };
+        // Extended scenes are per file; one extended in the editor earlier is used, otherwise the color shows
+        if (itemConfig.backgroundType === BackgroundType.EXTENDED_SCENE) {
+          const plate = await loadScenePlate(getScenePlateKey(item.file, getGenerationAspectRatio(getOutputDimensions(itemConfig))));
+          plateImage = plate ? await createImageBitmap(plate.image) : null;
+        }
+        const results = await runExportJob({
+          file: item.file,
+          configs: [itemConfig],
+          format: config.outputFormat,
+          backgroundImage: itemConfig.backgroundType === BackgroundType.EXTENDED_SCENE ? plateImage : backgroundImage,
+          baseFileName: `${item.file.name.replace(/\.[^.]+$/, '')}-resized`,
+          onProgress: (progress) => updateItem(item.id, { progress }),
+        });
+        updateItem(item.id, { status: ProcessingState.COMPLETED, progress: 100, results });
+      } catch (err) {
+        console.error(`Batch export failed for ${item.file.name}:`, err);
+        updateItem(item.id, {
+          status: ProcessingState.ERROR,
+          error: err instanceof Error ? err.message : "Export failed.",
+        });
+      } finally {
+        plateImage?.close();
+      }
+
+      // Let React commit the update so the ref reflects it before picking the next item
+      await new Promise(r => setTimeout(r, 0));
+      next = itemsRef.current.find(candidate => candidate.status === ProcessingState.QUEUED);
+    }
+
+    disposeBackgroundMedia(backgroundImage);
+    setIsRunning(false);
+  };
+
+  const retryItem = (id: string) => {
+    updateItem(id, { status: ProcessingState.QUEUED, progress: 0, results: [], error: undefined });
+  };
+
+  const removeItem = (id: string) => {
+    onItemsChange(prev => prev.filter(item => item.id !== id));
+  };
+
+  const downloadAll = async () => {
+    setIsZipping(true);
+    try {
+      const results = items.flatMap(item => item.results);
+      triggerDownload(await createZipArchive(results), 'resized-videos.zip');
+    } catch (e) {
+      console.error("ZIP creation failed:", e);
+      setErrorMsg("Could not create the ZIP archive.");
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  const handleAddFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      onAddFiles(Array.from(e.target.files));
+    }
+    e.target.value = '';
+  };
+
+  const completedCount = items.filter(item => item.status === ProcessingState.COMPLETED).length;
+  const hasQueued = items.some(item => item.status === ProcessingState.QUEUED);
+
+  const statusIcon = (status: ProcessingState) => {
+    switch (status) {
+      case ProcessingState.RECORDING:
+        return <Loader2 className="w-4 h-4 text-blue-400 animate-spin" />;
+      case ProcessingState.COMPLETED:
+        return <CheckCircle2 className="w-4 h-4 text-green-400" />;
+      case ProcessingState.ERROR:
+        return <AlertCircle className="w-4 h-4 text-red-400" />;
+      case ProcessingState.SKIPPED:
+        return <SkipForward className="w-4 h-4 text-gray-500" />;
+      default:
+        return <Clock className="w-4 h-4 text-gray-400" />;
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full w-full max-w-5xl mx-auto p-4 gap-6">
+
+      {/* Top Bar */}
+      <div className="flex justify-between items-center bg-gray-800 p-4 rounded-xl shadow-lg border border-gray-700">
+        <h2 className="text-xl font-bold text-white flex items-center gap-2">
+           <ListVideo className="w-5 h-5 text-blue-400" />
+           {t.batchQueue}
+           <span className="text-sm font-normal text-gray-400">({completedCount}/{items.length})</span>
+        </h2>
+        <div className="flex gap-3">
+            <label className={`px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-lg text-sm font-medium transition-colors flex items-center gap-2 cursor-pointer ${isRunning ? 'opacity-50 pointer-events-none' : ''}`}>
+                <Plus className="w-4 h-4" /> {t.addVideos}
+                <input type="file" accept="video/*" multiple onChange={handleAddFiles} className="hidden" />
+            </label>
+            <button
+                onClick={onReset}
+                className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+                disabled={isRunning}
+            >
+                {t.startOver}
+            </button>
+        </div>
+      </div>
+
+      {/* Shared Settings */}
+      <div className="bg-gray-800 p-4 rounded-xl border border-gray-700 grid grid-cols-1 md:grid-cols-5 gap-4">
+          <PresetPicker config={config} onConfigChange={onConfigChange} disabled={isRunning} t={t} />
+          <div>
+              <label className="text-xs text-gray-400 mb-2 block">{t.targetAspectRatio}</label>
+              <select
+                  value={config.aspectRatio}
+                  disabled={isRunning}
+                  onChange={(e) => onConfigChange({ ...config, aspectRatio: e.target.value as AspectRatio })}
+                  className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1.5 text-xs text-white focus:border-blue-500 focus:outline-none"
+              >
+                  {Object.values(AspectRatio).map((ratio) => (
+                      <option key={ratio} value={ratio}>{t.ratios[ratio as keyof typeof t.ratios]}</option>
+                  ))}
+              </select>
+          </div>
+          <div>
+              <label className="text-xs text-gray-400 mb-2 block">{t.resizeMode}</label>
+              <select
+                  value={config.scaleMode}
+                  disabled={isRunning}
+                  onChange={(e) => onConfigChange({ ...config, scaleMode: e.target.value as ScaleMode })}
+                  className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1.5 text-xs text-white focus:border-blue-500 focus:outline-none"
+              >
+                  {Object.values(ScaleMode).map((mode) => (
+                      <option key={mode} value={mode}>{t.modes[mode as keyof typeof t.modes]}</option>
+                  ))}
+              </select>
+          </div>
+          <div>
+              <label className="text-xs text-gray-400 mb-2 block">{t.outputFormat}</label>
+              <select
+                  value={config.outputFormat}
+                  disabled={isRunning}
+                  onChange={(e) => onConfigChange({ ...config, outputFormat: e.target.value as OutputFormat })}
+                  className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1.5 text-xs text-white focus:border-blue-500 focus:outline-none"
+              >
+                  {Object.values(OutputFormat).map((format) => (
+                      <option key={format} value={format}>{t.formats[format as keyof typeof t.formats]}</option>
+                  ))}
+              </select>
+          </div>
+          <div>
+              <label className="text-xs text-gray-400 mb-2 block">{t.background}</label>
+              <div className="flex items-center gap-3">
+                  <input
+                      type="color"
+                      value={config.backgroundColor}
+                      disabled={isRunning}
+                      onChange={(e) => onConfigChange({ ...config, backgroundColor: e.target.value })}
+                      className="w-8 h-8 rounded cursor-pointer bg-transparent border-0 p-0"
+                  />
+                  <span className="text-xs text-gray-300 font-mono uppercase">{config.backgroundColor}</span>
+              </div>
+          </div>
+      </div>
+
+      {/* Nothing generates AI textures per item, so those outputs would quietly fall back to the color */}
+      {config.backgroundType === BackgroundType.AI && (
+          <div className="bg-yellow-900/40 border border-yellow-500/50 text-yellow-200 p-3 rounded-lg text-xs flex items-start gap-2">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              {t.batchAiBackground}
+          </div>
+      )}
+
+      {/* Queue */}
+      <div className="bg-gray-800 rounded-xl border border-gray-700 divide-y divide-gray-700">
+          {items.map((item) => (
+              <div key={item.id} className="p-3 flex flex-col gap-2">
+                  <div className="flex items-center gap-3">
+                      {statusIcon(item.status)}
+                      <span className="text-sm text-white truncate flex-1" title={item.file.name}>{item.file.name}</span>
+
+                      {/* Per-file overrides */}
+                      <select
+                          value={item.overrides.aspectRatio || ''}
+                          disabled={isRunning && item.status === ProcessingState.RECORDING}
+                          onChange={(e) => updateItem(item.id, { overrides: { ...item.overrides, aspectRatio: (e.target.value || undefined) as AspectRatio | undefined } })}
+                          className="bg-gray-900 border border-gray-600 rounded px-1 py-0.5 text-xs text-gray-300 focus:outline-none"
+                      >
+                          <option value="">{t.sharedSetting}</option>
+                          {Object.values(AspectRatio).filter(ratio => ratio !== AspectRatio.CUSTOM).map((ratio) => (
+                              <option key={ratio} value={ratio}>{t.ratios[ratio as keyof typeof t.ratios]}</option>
+                          ))}
+                      </select>
+                      <select
+                          value={item.overrides.scaleMode || ''}
+                          disabled={isRunning && item.status === ProcessingState.RECORDING}
+                          onChange={(e) => updateItem(item.id, { overrides: { ...item.overrides, scaleMode: (e.target.value || undefined) as ScaleMode | undefined } })}
+                          className="bg-gray-900 border border-gray-600 rounded px-1 py-0.5 text-xs text-gray-300 focus:outline-none"
+                      >
+                          <option value="">{t.sharedSetting}</option>
+                          {Object.values(ScaleMode).map((mode) => (
+                              <option key={mode} value={mode}>{t.modes[mode as keyof typeof t.modes]}</option>
+                          ))}
+                      </select>
+
+                      <span className="text-xs text-gray-400 w-20 text-right">{t.queueStatus[item.status]}</span>
+
+                      {/* Item Actions */}
+                      <div className="flex items-center gap-2">
+                          {(item.status === ProcessingState.ERROR || item.status === ProcessingState.SKIPPED) && (
+                              <button onClick={() => retryItem(item.id)} className="text-gray-400 hover:text-white" title={t.retry}>
+                                  <RotateCcw className="w-4 h-4" />
+                              </button>
+                          )}
+                          {item.status === ProcessingState.QUEUED && (
+                              <button onClick={() => updateItem(item.id, { status: ProcessingState.SKIPPED })} className="text-gray-400 hover:text-white" title={t.skip}>
+                                  <SkipForward className="w-4 h-4" />
+                              </button>
+                          )}
+                          {item.status === ProcessingState.COMPLETED && item.results.map((result) => (
+                              <a key={result.fileName} href={result.url} download={result.fileName} className="text-green-400 hover:text-green-300" title={t.downloadVideo}>
+                                  <Download className="w-4 h-4" />
+                              </a>
+                          ))}
+                          <button
+                              onClick={() => removeItem(item.id)}
+                              disabled={item.status === ProcessingState.RECORDING}
+                              className="text-gray-400 hover:text-red-400 disabled:opacity-30"
+                              title={t.remove}
+                          >
+                              <Trash2 className="w-4 h-4" />
+                          </button>
+                      </div>
+                  </div>
+
+                  {item.status === ProcessingState.RECORDING && (
+                      <div className="w-full h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                          <div className="h-full bg-blue-500 transition-all duration-300 ease-out" style={{ width: `${item.progress}%` }}></div>
+                      </div>
+                  )}
+                  {item.error && (
+                      <p className="text-xs text-red-400">{item.error}</p>
+                  )}
+              </div>
+          ))}
+      </div>
+
+      {errorMsg && (
+         <div className="bg-red-900/50 border border-red-500/50 text-red-200 p-3 rounded-lg text-sm">
+             {errorMsg}
+         </div>
+      )}
+
+      {/* Main Actions */}
+      <div className="flex gap-4">
+          <button
+              onClick={runQueue}
+              disabled={isRunning || !hasQueued}
+              className="flex-1 flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-500 text-white font-bold py-4 rounded-xl shadow-lg shadow-blue-900/20 disabled:opacity-50 disabled:cursor-not-allowed transition-all transform active:scale-95"
+          >
+              {isRunning ? <Loader2 className="w-5 h-5 animate-spin" /> : <Play className="w-5 h-5 fill-current" />}
+              {isRunning ? t.processingDownload : t.startQueue}
+          </button>
+          {!isRunning && completedCount > 0 && (
+              <button
+                  onClick={downloadAll}
+                  disabled={isZipping}
+                  className="flex-1 flex items-center justify-center gap-2 bg-green-600 hover:bg-green-500 text-white font-bold py-4 rounded-xl shadow-lg shadow-green-900/20 transition-all disabled:opacity-50"
+              >
+                  {isZipping ? <Loader2 className="w-5 h-5 animate-spin" /> : <Archive className="w-5 h-5" />}
+                  {t.downloadAllZip}
+              </button>
+          )}
+      </div>
+    </div>
+  );
+};
+
+export default BatchQueue;
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { ColorAdjustments, VideoConfig } from '../types';
+import { DEFAULT_COLOR_ADJUSTMENTS, parseCubeLut } from '../services/colorGrading';
+import { RotateCcw, SlidersHorizontal, Upload, X } from 'lucide-react';
+
+interface ColorSettingsProps {
+  config: VideoConfig;
+  onConfigChange: (config: VideoConfig) => void;
+  disabled: boolean;
+  t: any; // Using any for simplicity with the translations object
+}
+
+const ColorSettings: React.FC<ColorSettingsProps> = ({ config, onConfigChange, disabled, t }) => {
+  const [error, setError] = useState<string | null>(null);
+  const color = config.color;
+
+  const update = (changes: Partial<ColorAdjustments>) => {
+    onConfigChange({ ...config, color: { ...color, ...changes } });
+  };
+
+  const handleLut = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onConfigChange({ ...config, lut: parseCubeLut(await file.text(), file.name) });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t.lutLoadFailed);
+    }
+  };
+
+  const signed = (value: number) => `${value > 0 ? '+' : ''}${Math.round(value * 100)}`;
+
+  const slider = (label: string, key: keyof ColorAdjustments, min: number, max: number, step: number, format: string) => (
+    <label className="flex items-center gap-2 text-xs text-gray-400">
+      <span className="w-16">{label}</span>
+      <input type="range" min={min} max={max} step={step} disabled={disabled} value={color[key]}
+        onChange={(e) => update({ [key]: Number(e.target.value) })}
+        onDoubleClick={() => update({ [key]: 0 })}
+        className="flex-1 h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500 disabled:opacity-30" />
+      <span className="w-10 text-right font-mono text-gray-300">{format}</span>
+    </label>
+  );
+
+  const isDefault = Object.values(color).every(value => value === 0);
+
+  return (
+    <div className="border-t border-gray-700 pt-4 mt-4">
+      <div className="flex justify-between items-center mb-2">
+        <label className="text-xs text-gray-400 flex items-center gap-2">
+          <SlidersHorizontal className="w-3 h-3" /> {t.colorGrading}
+        </label>
+        <button
+          onClick={() => onConfigChange({ ...config, color: DEFAULT_COLOR_ADJUSTMENTS })}
+          disabled={disabled || isDefault}
+          className="text-gray-400 hover:text-white disabled:opacity-30"
+          title={t.resetColor}
+        >
+          <RotateCcw className="w-3 h-3" />
+        </button>
+      </div>
+
+      <div className="bg-gray-700/50 p-2 rounded-lg border border-gray-600 space-y-2">
+        {slider(t.exposure, 'exposure', -2, 2, 0.05, `${color.exposure > 0 ? '+' : ''}${color.exposure.toFixed(1)}`)}
+        {slider(t.contrast, 'contrast', -1, 1, 0.05, signed(color.contrast))}
+        {slider(t.saturation, 'saturation', -1, 1, 0.05, signed(color.saturation))}
+        {slider(t.temperature, 'temperature', -1, 1, 0.05, signed(color.temperature))}
+        {slider(t.vignette, 'vignette', 0, 1, 0.05, `${Math.round(color.vignette * 100)}%`)}
+        {slider(t.sharpen, 'sharpen', 0, 1, 0.05, `${Math.round(color.sharpen * 100)}%`)}
+
+        {config.lut ? (
+          <div className="flex items-center gap-2 bg-gray-900 p-1.5 rounded-lg border border-gray-600">
+            <span className="text-xs text-gray-400">LUT</span>
+            <span className="text-xs text-white font-mono flex-1 truncate">{config.lut.name}</span>
+            <button onClick={() => onConfigChange({ ...config, lut: null })} disabled={disabled} className="text-gray-400 hover:text-red-400 disabled:opacity-30">
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        ) : (
+          <label className={`w-full py-1.5 bg-gray-900 hover:bg-gray-800 border border-gray-600 text-gray-200 rounded-lg text-xs font-medium transition-colors flex items-center justify-center gap-2 ${disabled ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+            <Upload className="w-3 h-3" /> {t.loadLut}
+            <input type="file" accept=".cube" className="hidden" disabled={disabled} onChange={handleLut} />
+          </label>
+        )}
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default ColorSettings;
@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { ExportQuality, VideoCodec, VideoConfig } from '../types';
+import { FRAME_RATE_OPTIONS, getSupportedVideoCodecs, getVideoBitrate, RESOLUTION_SCALE_OPTIONS } from '../services/exportSettings';
+import { getOutputDimensions } from '../services/exportTargets';
+import { Gauge } from 'lucide-react';
+
+interface ExportSettingsProps {
+  config: VideoConfig;
+  onConfigChange: (config: VideoConfig) => void;
+  disabled: boolean;
+  t: any; // Using any for simplicity with the translations object
+}
+
+const ExportSettings: React.FC<ExportSettingsProps> = ({ config, onConfigChange, disabled, t }) => {
+  const [supportedCodecs, setSupportedCodecs] = useState<VideoCodec[]>([]);
+
+  // Only offer codecs this browser can actually encode for the chosen container
+  useEffect(() => {
+    let cancelled = false;
+    getSupportedVideoCodecs(config.outputFormat).then((codecs) => {
+      if (!cancelled) setSupportedCodecs(codecs);
+    });
+    return () => { cancelled = true; };
+  }, [config.outputFormat]);
+
+  // A codec the container can't carry is ignored at export time, so show it as Auto
+  const selectedCodec = config.videoCodec && supportedCodecs.includes(config.videoCodec) ? config.videoCodec : '';
+
+  const estimatedBitrate = getVideoBitrate(config, getOutputDimensions(config), config.frameRate ?? 30);
+
+  const selectClass = "flex-1 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-gray-300 focus:outline-none";
+
+  return (
+    <div className="border-t border-gray-700 pt-4 mt-4">
+      <label className="text-xs text-gray-400 mb-2 block flex items-center gap-2">
+        <Gauge className="w-3 h-3" /> {t.exportSettings}
+      </label>
+
+      <div className="bg-gray-700/50 p-2 rounded-lg border border-gray-600 space-y-2">
+        <label className="flex items-center gap-2 text-xs text-gray-400">
+          <span className="w-16">{t.frameRate}</span>
+          <select
+            value={config.frameRate ?? ''}
+            disabled={disabled}
+            onChange={(e) => onConfigChange({ ...config, frameRate: e.target.value ? Number(e.target.value) : null })}
+            className={selectClass}
+          >
+            <option value="">{t.sourceFrameRate}</option>
+            {FRAME_RATE_OPTIONS.map((fps) => (
+              <option key={fps} value={fps}>{fps} fps</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center gap-2 text-xs text-gray-400">
+          <span className="w-16">{t.quality}</span>
+          <select
+            value={config.quality}
+            disabled={disabled}
+            onChange={(e) => onConfigChange({ ...config, quality: e.target.value as ExportQuality })}
+            className={selectClass}
+          >
+            {Object.values(ExportQuality).map((quality) => (
+              <option key={quality} value={quality}>{t.qualities[quality as keyof typeof t.qualities]}</option>
+            ))}
+          </select>
+        </label>
+
+        {config.quality === ExportQuality.CUSTOM ? (
+          <label className="flex items-center gap-2 text-xs text-gray-400">
+            <span className="w-16">{t.bitrate}</span>
+            <input
+              type="number"
+              min={0.25}
+              step={0.5}
+              value={config.videoBitrate / 1e6}
+              disabled={disabled}
+              onChange={(e) => onConfigChange({ ...config, videoBitrate: Math.round(Number(e.target.value) * 1e6) })}
+              className="flex-1 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs focus:border-blue-500 focus:outline-none"
+            />
+            <span className="text-gray-500">Mbps</span>
+          </label>
+        ) : (
+          <p className="text-xs text-gray-500 text-right font-mono">≈ {(estimatedBitrate / 1e6).toFixed(1)} Mbps</p>
+        )}
+
+        <label className="flex items-center gap-2 text-xs text-gray-400">
+          <span className="w-16">{t.codec}</span>
+          <select
+            value={selectedCodec}
+            disabled={disabled}
+            onChange={(e) => onConfigChange({ ...config, videoCodec: (e.target.value || null) as VideoCodec | null })}
+            className={selectClass}
+          >
+            <option value="">{t.autoCodec}</option>
+            {supportedCodecs.map((codec) => (
+              <option key={codec} value={codec}>{codec}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center gap-2 text-xs text-gray-400">
+          <span className="w-16">{t.resolutionScale}</span>
+          <select
+            value={config.resolutionScale}
+            disabled={disabled}
+            onChange={(e) => onConfigChange({ ...config, resolutionScale: Number(e.target.value) })}
+            className={selectClass}
+          >
+            {RESOLUTION_SCALE_OPTIONS.map((scale) => (
+              <option key={scale} value={scale}>{Math.round(scale * 100)}%</option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default ExportSettings;
@@ -0,0 +1,120 @@
+import React from 'react';
+import { BackgroundGradient, GradientStop, VideoConfig } from '../types';
+import { Pipette, Plus, X } from 'lucide-react';
+
+interface GradientEditorProps {
+  config: VideoConfig;
+  onConfigChange: (config: VideoConfig) => void;
+  disabled: boolean;
+  // Ready-made gradients from the video's palette
+  suggestions?: BackgroundGradient[];
+  t: any; // Using any for simplicity with the translations object
+}
+
+const MAX_STOPS = 6;
+
+const toCss = ({ kind, angle, stops }: BackgroundGradient) => {
+  const colors = [...stops]
+    .sort((a, b) => a.offset - b.offset)
+    .map(stop => `${stop.color} ${Math.round(stop.offset * 100)}%`)
+    .join(', ');
+  return kind === 'radial' ? `radial-gradient(circle, ${colors})` : `linear-gradient(${angle}deg, ${colors})`;
+};
+
+const GradientEditor: React.FC<GradientEditorProps> = ({ config, onConfigChange, disabled, suggestions = [], t }) => {
+  const gradient = config.backgroundGradient;
+
+  const update = (changes: Partial<BackgroundGradient>) => {
+    onConfigChange({ ...config, backgroundGradient: { ...gradient, ...changes } });
+  };
+
+  const updateStop = (index: number, changes: Partial<GradientStop>) => {
+    update({ stops: gradient.stops.map((stop, i) => i === index ? { ...stop, ...changes } : stop) });
+  };
+
+  // New stops go in the widest gap, taking the color of its left edge
+  const addStop = () => {
+    const sorted = [...gradient.stops].sort((a, b) => a.offset - b.offset);
+    let gapStart = 0;
+    for (let i = 1; i < sorted.length; i++) {
+      if (sorted[i].offset - sorted[i - 1].offset > sorted[gapStart + 1].offset - sorted[gapStart].offset) gapStart = i - 1;
+    }
+    const left = sorted[gapStart];
+    const right = sorted[gapStart + 1];
+    update({ stops: [...gradient.stops, { offset: (left.offset + right.offset) / 2, color: left.color }] });
+  };
+
+  return (
+    <div className="space-y-2 bg-gray-700/50 p-2 rounded-lg border border-gray-600">
+      <div className="h-8 rounded-md border border-gray-600" style={{ background: toCss(gradient) }} />
+
+      {suggestions.length > 0 && (
+        <div className="flex items-center gap-1.5">
+          <Pipette className="w-3 h-3 text-gray-400" />
+          <span className="text-xs text-gray-400 mr-1">{t.fromVideo}</span>
+          {suggestions.map((suggestion, index) => (
+            <button
+              key={index}
+              onClick={() => update(suggestion)}
+              disabled={disabled}
+              className="w-8 h-5 rounded border border-gray-600 transition-transform hover:scale-110 disabled:opacity-30"
+              style={{ background: toCss(suggestion) }}
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="flex bg-gray-900 rounded-lg p-1">
+        {(['linear', 'radial'] as const).map(kind => (
+          <button
+            key={kind}
+            onClick={() => update({ kind })}
+            disabled={disabled}
+            className={`flex-1 py-1 rounded-md text-xs transition-all ${gradient.kind === kind ? 'bg-gray-700 text-white shadow-sm' : 'text-gray-400 hover:text-gray-300'}`}
+          >
+            {t[kind]}
+          </button>
+        ))}
+      </div>
+
+      {gradient.kind === 'linear' && (
+        <label className="flex items-center gap-2 text-xs text-gray-400">
+          <span className="w-16">{t.angle}</span>
+          <input type="range" min={0} max={360} step={5} disabled={disabled} value={gradient.angle}
+            onChange={(e) => update({ angle: Number(e.target.value) })}
+            className="flex-1 h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500 disabled:opacity-30" />
+          <span className="w-10 text-right font-mono text-gray-300">{gradient.angle}°</span>
+        </label>
+      )}
+
+      {gradient.stops.map((stop, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <input type="color" value={stop.color} disabled={disabled}
+            onChange={(e) => updateStop(index, { color: e.target.value })}
+            className="w-6 h-6 rounded cursor-pointer bg-transparent border-0 p-0" />
+          <input type="range" min={0} max={1} step={0.01} disabled={disabled} value={stop.offset}
+            onChange={(e) => updateStop(index, { offset: Number(e.target.value) })}
+            className="flex-1 h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500 disabled:opacity-30" />
+          <span className="w-8 text-right text-xs font-mono text-gray-300">{Math.round(stop.offset * 100)}%</span>
+          <button
+            onClick={() => update({ stops: gradient.stops.filter((_, i) => i !== index) })}
+            disabled={disabled || gradient.stops.length <= 2}
+            className="text-gray-400 hover:text-red-400 disabled:opacity-30"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      ))}
+
+      <button
+        onClick={addStop}
+        disabled={disabled || gradient.stops.length >= MAX_STOPS}
+        className="w-full py-1 text-xs text-gray-300 bg-gray-900 hover:bg-gray-800 rounded-lg border border-gray-600 flex items-center justify-center gap-1 disabled:opacity-30"
+      >
+        <Plus className="w-3 h-3" /> {t.addStop}
+      </button>
+    </div>
+  );
+};
+
+export default GradientEditor;
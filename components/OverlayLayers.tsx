@@ -0,0 +1,186 @@
+import React, { useRef, useState } from 'react';
+import { OverlayLayer, VideoConfig } from '../types';
+import { loadOverlayImage } from '../services/overlays';
+import { ChevronDown, ChevronUp, ImagePlus, Type, X } from 'lucide-react';
+
+interface OverlayLayersProps {
+  config: VideoConfig;
+  onConfigChange: (config: VideoConfig) => void;
+  disabled: boolean;
+  t: any; // Using any for simplicity with the translations object
+}
+
+const readAsDataURL = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+};
+
+const OverlayLayers: React.FC<OverlayLayersProps> = ({ config, onConfigChange, disabled, t }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const layers = config.overlays;
+  // Image layers are added after an await; build on the config as it is then, not as it was
+  const configRef = useRef(config);
+  configRef.current = config;
+
+  const setLayers = (overlays: OverlayLayer[]) => onConfigChange({ ...config, overlays });
+
+  const updateLayer = (id: string, changes: Partial<OverlayLayer>) => {
+    setLayers(layers.map(layer => (layer.id === id ? { ...layer, ...changes } as OverlayLayer : layer)));
+  };
+
+  const addLayer = (layer: OverlayLayer) => {
+    const latest = configRef.current;
+    onConfigChange({ ...latest, overlays: [...latest.overlays, layer] });
+    setSelectedId(layer.id);
+  };
+
+  const handleImage = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const src = await readAsDataURL(file);
+      // Decode before adding so the preview can draw it straight away
+      await loadOverlayImage(src);
+      setError(null);
+      addLayer({ id: crypto.randomUUID(), kind: 'image', src, x: 0.85, y: 0.1, scale: 0.2, opacity: 1, start: 0 });
+    } catch (err) {
+      setError(t.overlayLoadFailed);
+    }
+  };
+
+  const addText = () => {
+    addLayer({
+      id: crypto.randomUUID(),
+      kind: 'text',
+      text: t.defaultOverlayText,
+      color: '#ffffff',
+      fontFamily: 'Inter, Arial, sans-serif',
+      x: 0.5,
+      y: 0.15,
+      scale: 0.08,
+      opacity: 1,
+      start: 0,
+    });
+  };
+
+  const moveLayer = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= layers.length) return;
+    const next = [...layers];
+    [next[index], next[target]] = [next[target], next[index]];
+    setLayers(next);
+  };
+
+  const sliders = [
+    { key: 'x', label: t.positionX, min: 0, max: 1, step: 0.01 },
+    { key: 'y', label: t.positionY, min: 0, max: 1, step: 0.01 },
+    { key: 'scale', label: t.layerScale, min: 0.02, max: 1, step: 0.01 },
+    { key: 'opacity', label: t.opacity, min: 0, max: 1, step: 0.05 },
+  ] as const;
+
+  return (
+    <div className="border-t border-gray-700 pt-4 mt-4">
+      <label className="text-xs text-gray-400 mb-2 block flex items-center gap-2">
+        <ImagePlus className="w-3 h-3" /> {t.overlays}
+      </label>
+
+      <div className="flex gap-2">
+        <label className={`flex-1 py-1.5 bg-gray-700 hover:bg-gray-600 border border-gray-600 text-gray-200 rounded-lg text-xs font-medium transition-colors flex items-center justify-center gap-2 ${disabled ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+          <ImagePlus className="w-3 h-3" /> {t.addLogo}
+          <input type="file" accept="image/png,image/svg+xml,image/*" className="hidden" disabled={disabled} onChange={handleImage} />
+        </label>
+        <button
+          onClick={addText}
+          disabled={disabled}
+          className="flex-1 py-1.5 bg-gray-700 hover:bg-gray-600 border border-gray-600 text-gray-200 rounded-lg text-xs font-medium transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          <Type className="w-3 h-3" /> {t.addText}
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+
+      {layers.length > 0 && (
+        <div className="mt-2 space-y-1">
+          {/* Topmost layer first, like an editor's layer panel */}
+          {layers.map((layer, index) => ({ layer, index })).reverse().map(({ layer, index }) => (
+            <div key={layer.id} className="bg-gray-700/50 rounded-lg border border-gray-600">
+              <div className="flex items-center gap-2 p-1.5">
+                <button
+                  onClick={() => setSelectedId(selectedId === layer.id ? null : layer.id)}
+                  className="flex-1 flex items-center gap-2 text-xs text-white text-left truncate"
+                >
+                  {layer.kind === 'image'
+                    ? <img src={layer.src} alt="" className="w-5 h-5 object-contain bg-gray-900 rounded" />
+                    : <Type className="w-4 h-4 text-gray-400" />}
+                  <span className="truncate">{layer.kind === 'image' ? t.logo : layer.text}</span>
+                </button>
+                <button onClick={() => moveLayer(index, 1)} disabled={disabled || index === layers.length - 1} className="text-gray-400 hover:text-white disabled:opacity-30">
+                  <ChevronUp className="w-3 h-3" />
+                </button>
+                <button onClick={() => moveLayer(index, -1)} disabled={disabled || index === 0} className="text-gray-400 hover:text-white disabled:opacity-30">
+                  <ChevronDown className="w-3 h-3" />
+                </button>
+                <button onClick={() => setLayers(layers.filter(item => item.id !== layer.id))} disabled={disabled} className="text-gray-400 hover:text-red-400 disabled:opacity-30">
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+
+              {selectedId === layer.id && (
+                <div className="p-2 pt-0 space-y-2">
+                  {layer.kind === 'text' && (
+                    <div className="flex gap-2">
+                      <textarea
+                        value={layer.text}
+                        disabled={disabled}
+                        onChange={(e) => updateLayer(layer.id, { text: e.target.value })}
+                        className="flex-1 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-white focus:border-blue-500 focus:outline-none resize-none h-12"
+                      />
+                      <input type="color" value={layer.color} disabled={disabled}
+                        onChange={(e) => updateLayer(layer.id, { color: e.target.value })}
+                        className="w-6 h-6 rounded cursor-pointer bg-transparent border-0 p-0" />
+                    </div>
+                  )}
+
+                  {sliders.map(({ key, label, min, max, step }) => (
+                    <label key={key} className="flex items-center gap-2 text-xs text-gray-400">
+                      <span className="w-16">{label}</span>
+                      <input type="range" min={min} max={max} step={step} disabled={disabled} value={layer[key]}
+                        onChange={(e) => updateLayer(layer.id, { [key]: Number(e.target.value) })}
+                        className="flex-1 h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500 disabled:opacity-30" />
+                      <span className="w-10 text-right font-mono text-gray-300">{Math.round(layer[key] * 100)}%</span>
+                    </label>
+                  ))}
+
+                  <div className="flex gap-2 text-xs text-gray-400">
+                    <label className="flex-1 flex items-center gap-1">
+                      {t.layerStart}
+                      <input type="number" min={0} step={0.1} value={layer.start} disabled={disabled}
+                        onChange={(e) => updateLayer(layer.id, { start: Math.max(0, Number(e.target.value)) })}
+                        className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs focus:border-blue-500 focus:outline-none" />
+                    </label>
+                    <label className="flex-1 flex items-center gap-1">
+                      {t.layerEnd}
+                      <input type="number" min={0} step={0.1} value={layer.end ?? ''} placeholder="∞" disabled={disabled}
+                        onChange={(e) => updateLayer(layer.id, { end: e.target.value === '' ? undefined : Number(e.target.value) })}
+                        className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs focus:border-blue-500 focus:outline-none" />
+                    </label>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OverlayLayers;
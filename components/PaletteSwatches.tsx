@@ -0,0 +1,34 @@
+import React from 'react';
+import { Pipette } from 'lucide-react';
+
+interface PaletteSwatchesProps {
+  // Dominant colors of the video, most common first
+  colors: string[];
+  selected: string | null;
+  onPick: (color: string) => void;
+  disabled: boolean;
+  t: any; // Using any for simplicity with the translations object
+}
+
+const PaletteSwatches: React.FC<PaletteSwatchesProps> = ({ colors, selected, onPick, disabled, t }) => {
+  if (colors.length === 0) return null;
+
+  return (
+    <div className="flex items-center gap-1.5">
+      <Pipette className="w-3 h-3 text-gray-400" />
+      <span className="text-xs text-gray-400 mr-1">{t.fromVideo}</span>
+      {colors.map(color => (
+        <button
+          key={color}
+          onClick={() => onPick(color)}
+          disabled={disabled}
+          title={color}
+          className={`w-5 h-5 rounded-full border-2 transition-transform hover:scale-110 disabled:opacity-30 ${selected?.toLowerCase() === color ? 'border-white' : 'border-gray-600'}`}
+          style={{ backgroundColor: color }}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default PaletteSwatches;
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { Preset, VideoConfig } from '../types';
+import { applyPreset, createPreset, loadCustomPresets, parsePresets, PLATFORM_PRESETS, saveCustomPresets, serializePresets } from '../services/presets';
+import { triggerDownload } from '../services/exportTargets';
+import { Bookmark, Download, Save, Trash2, Upload } from 'lucide-react';
+
+interface PresetPickerProps {
+  config: VideoConfig;
+  onConfigChange: (config: VideoConfig) => void;
+  disabled: boolean;
+  t: any; // Using any for simplicity with the translations object
+}
+
+const PresetPicker: React.FC<PresetPickerProps> = ({ config, onConfigChange, disabled, t }) => {
+  const [customPresets, setCustomPresets] = useState<Preset[]>(loadCustomPresets);
+  const [selectedId, setSelectedId] = useState('');
+  const [newName, setNewName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedCustom = customPresets.find(preset => preset.id === selectedId);
+
+  const updateCustomPresets = (presets: Preset[]) => {
+    setCustomPresets(presets);
+    try {
+      saveCustomPresets(presets);
+      setError(null);
+    } catch (e) {
+      console.error("Saving presets failed:", e);
+      setError(t.presetSaveFailed);
+    }
+  };
+
+  const handleSelect = (id: string) => {
+    setSelectedId(id);
+    const preset = [...PLATFORM_PRESETS, ...customPresets].find(item => item.id === id);
+    if (preset) onConfigChange(applyPreset(config, preset));
+  };
+
+  const savePreset = () => {
+    if (!newName?.trim()) return;
+    const preset = createPreset(newName.trim(), config);
+    updateCustomPresets([...customPresets, preset]);
+    setSelectedId(preset.id);
+    setNewName(null);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      updateCustomPresets([...customPresets, ...parsePresets(await file.text())]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t.presetImportFailed);
+    }
+  };
+
+  const handleExport = () => {
+    triggerDownload(new Blob([serializePresets(customPresets)], { type: 'application/json' }), 'resized-video-pro-presets.json');
+  };
+
+  const iconButton = "p-1.5 bg-gray-700 hover:bg-gray-600 border border-gray-600 rounded text-gray-300 disabled:opacity-50";
+
+  return (
+    <div>
+      <label className="text-xs text-gray-400 mb-2 block flex items-center gap-2">
+        <Bookmark className="w-3 h-3" /> {t.preset}
+      </label>
+
+      <div className="flex gap-1">
+        <select
+          value={selectedId}
+          disabled={disabled}
+          onChange={(e) => handleSelect(e.target.value)}
+          className="flex-1 min-w-0 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-gray-300 focus:outline-none"
+        >
+          <option value="">{t.choosePreset}</option>
+          <optgroup label={t.platformPresets}>
+            {PLATFORM_PRESETS.map((preset) => (
+              <option key={preset.id} value={preset.id}>{preset.name}</option>
+            ))}
+          </optgroup>
+          {customPresets.length > 0 && (
+            <optgroup label={t.myPresets}>
+              {customPresets.map((preset) => (
+                <option key={preset.id} value={preset.id}>{preset.name}</option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+
+        <button onClick={() => setNewName('')} disabled={disabled} className={iconButton} title={t.savePreset}>
+          <Save className="w-3 h-3" />
+        </button>
+        {selectedCustom && (
+          <button
+            onClick={() => {
+              updateCustomPresets(customPresets.filter(preset => preset.id !== selectedCustom.id));
+              setSelectedId('');
+            }}
+            disabled={disabled}
+            className={iconButton}
+            title={t.deletePreset}
+          >
+            <Trash2 className="w-3 h-3" />
+          </button>
+        )}
+        <label className={`${iconButton} ${disabled ? 'pointer-events-none opacity-50' : 'cursor-pointer'}`} title={t.importPresets}>
+          <Upload className="w-3 h-3" />
+          <input type="file" accept="application/json,.json" className="hidden" disabled={disabled} onChange={handleImport} />
+        </label>
+        <button onClick={handleExport} disabled={disabled || customPresets.length === 0} className={iconButton} title={t.exportPresets}>
+          <Download className="w-3 h-3" />
+        </button>
+      </div>
+
+      {newName !== null && (
+        <div className="flex gap-1 mt-2">
+          <input
+            type="text"
+            autoFocus
+            value={newName}
+            placeholder={t.presetName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') savePreset();
+              if (e.key === 'Escape') setNewName(null);
+            }}
+            className="flex-1 min-w-0 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-white focus:border-blue-500 focus:outline-none"
+          />
+          <button
+            onClick={savePreset}
+            disabled={!newName.trim()}
+            className="px-2 bg-blue-600 hover:bg-blue-500 rounded text-xs text-white disabled:opacity-50"
+          >
+            {t.save}
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+    </div>
+  );
+};
+
+export default PresetPicker;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { Lightbulb, Loader2 } from 'lucide-react';
+
+interface PromptSuggestionsProps {
+  suggestions: string[];
+  isLoading: boolean;
+  onSuggest: () => void;
+  // Fills the prompt and generates with it
+  onPick: (prompt: string) => void;
+  disabled: boolean;
+  t: any; // Using any for simplicity with the translations object
+}
+
+const PromptSuggestions: React.FC<PromptSuggestionsProps> = ({ suggestions, isLoading, onSuggest, onPick, disabled, t }) => (
+  <div className="space-y-2">
+    <button
+      onClick={onSuggest}
+      disabled={disabled || isLoading}
+      className="w-full py-1.5 bg-gray-900 hover:bg-gray-800 border border-gray-600 text-gray-200 rounded-lg text-xs font-medium transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+    >
+      {isLoading ? <Loader2 className="w-3 h-3 animate-spin" /> : <Lightbulb className="w-3 h-3" />}
+      {isLoading ? t.suggesting : t.suggestBackgrounds}
+    </button>
+    {suggestions.length > 0 && (
+      <div className="flex flex-wrap gap-1.5">
+        {suggestions.map(suggestion => (
+          <button
+            key={suggestion}
+            onClick={() => onPick(suggestion)}
+            disabled={disabled}
+            className="px-2 py-1 bg-indigo-900/40 hover:bg-indigo-800/60 border border-indigo-700/50 text-indigo-100 rounded-full text-xs text-left transition-colors disabled:opacity-50"
+            title={t.useSuggestion}
+          >
+            {suggestion}
+          </button>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export default PromptSuggestions;
@@ -0,0 +1,63 @@
+import React, { useEffect, useState } from 'react';
+import { ScenePlate } from '../types';
+import { Expand } from 'lucide-react';
+
+interface SceneExtensionPanelProps {
+  // The cached plate for this file and ratio, if any
+  plate: ScenePlate | null;
+  aspectRatio: string;
+  currentTime: number;
+  formatTime: (seconds: number) => string;
+  onExtend: () => void;
+  onShowFrame: (time: number) => void;
+  disabled: boolean;
+  t: any; // Using any for simplicity with the translations object
+}
+
+const SceneExtensionPanel: React.FC<SceneExtensionPanelProps> = ({ plate, aspectRatio, currentTime, formatTime, onExtend, onShowFrame, disabled, t }) => {
+  const [thumbnail, setThumbnail] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!plate) {
+      setThumbnail(null);
+      return;
+    }
+    const url = URL.createObjectURL(plate.image);
+    setThumbnail(url);
+    return () => URL.revokeObjectURL(url);
+  }, [plate]);
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-gray-400">{t.extendSceneHint}</p>
+
+      {plate && thumbnail && (
+        <div className="flex items-center gap-2 bg-gray-900 p-1.5 rounded-lg border border-gray-600">
+          <img src={thumbnail} alt="" className="w-12 h-12 object-cover rounded" />
+          <div className="flex-1 text-xs text-gray-300">
+            <div>{t.extendedFrom} <span className="font-mono">{formatTime(plate.frameTime)}</span></div>
+            <div className="font-mono text-gray-500">{plate.aspectRatio}</div>
+          </div>
+          <button
+            onClick={() => onShowFrame(plate.frameTime)}
+            disabled={disabled}
+            className="text-xs text-indigo-300 hover:text-indigo-200 disabled:opacity-30"
+          >
+            {t.showFrame}
+          </button>
+        </div>
+      )}
+
+      <button
+        onClick={onExtend}
+        disabled={disabled}
+        className="w-full py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-xs font-medium transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+      >
+        <Expand className="w-3 h-3" />
+        {t.extendFromFrame} {formatTime(currentTime)} ({aspectRatio})
+      </button>
+    </div>
+  );
+};
+
+export default SceneExtensionPanel;
@@ -0,0 +1,193 @@
+import React, { useEffect, useRef } from 'react';
+import { Rect, VideoConfig } from '../types';
+import { getSourceRect } from '../services/layout';
+import { Crop, Loader2, ScanLine } from 'lucide-react';
+
+interface SourceCropEditorProps {
+  config: VideoConfig;
+  onConfigChange: (config: VideoConfig) => void;
+  // The preview's video; its current frame is drawn under the crop
+  video: HTMLVideoElement | null;
+  currentTime: number;
+  // What bar detection proposes, or null when it found none
+  detected: Rect | null;
+  isDetecting: boolean;
+  disabled: boolean;
+  t: any; // Using any for simplicity with the translations object
+}
+
+// Which edges a handle moves on each axis: -1 the left/top, 1 the right/bottom, 0 neither
+interface Handle {
+  x: -1 | 0 | 1;
+  y: -1 | 0 | 1;
+}
+
+const HANDLES: Handle[] = [
+  { x: -1, y: -1 }, { x: 0, y: -1 }, { x: 1, y: -1 },
+  { x: -1, y: 0 }, { x: 1, y: 0 },
+  { x: -1, y: 1 }, { x: 0, y: 1 }, { x: 1, y: 1 },
+];
+
+const CURSORS: Record<string, string> = {
+  '-1,-1': 'cursor-nwse-resize', '1,1': 'cursor-nwse-resize',
+  '1,-1': 'cursor-nesw-resize', '-1,1': 'cursor-nesw-resize',
+  '-1,0': 'cursor-ew-resize', '1,0': 'cursor-ew-resize',
+  '0,-1': 'cursor-ns-resize', '0,1': 'cursor-ns-resize',
+};
+
+const WHOLE_FRAME: Rect = { x: 0, y: 0, width: 1, height: 1 };
+// The crop never gets smaller than this fraction of the source on either axis
+const MIN_SIZE = 0.1;
+// Frame drawn under the crop; CSS scales it to the panel
+const THUMBNAIL_WIDTH = 320;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Moves the whole crop (no handle) or the handle's edges by a fraction of the source
+const dragCrop = (crop: Rect, handle: Handle | null, dx: number, dy: number): Rect => {
+  if (!handle) {
+    return { ...crop, x: clamp(crop.x + dx, 0, 1 - crop.width), y: clamp(crop.y + dy, 0, 1 - crop.height) };
+  }
+  let left = crop.x;
+  let top = crop.y;
+  let right = crop.x + crop.width;
+  let bottom = crop.y + crop.height;
+  if (handle.x === -1) left = clamp(left + dx, 0, right - MIN_SIZE);
+  if (handle.x === 1) right = clamp(right + dx, left + MIN_SIZE, 1);
+  if (handle.y === -1) top = clamp(top + dy, 0, bottom - MIN_SIZE);
+  if (handle.y === 1) bottom = clamp(bottom + dy, top + MIN_SIZE, 1);
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+const sameCrop = (a: Rect | null, b: Rect | null) =>
+  !!a && !!b && (['x', 'y', 'width', 'height'] as const).every(key => Math.abs(a[key] - b[key]) < 0.001);
+
+const SourceCropEditor: React.FC<SourceCropEditorProps> = ({ config, onConfigChange, video, currentTime, detected, isDetecting, disabled, t }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ handle: Handle | null; clientX: number; clientY: number; crop: Rect } | null>(null);
+  const crop = config.sourceCrop ?? WHOLE_FRAME;
+  const sourceSize = video && video.videoWidth ? { width: video.videoWidth, height: video.videoHeight } : null;
+
+  // Keep the frame under the crop in step with the preview; a seek's new frame arrives after its time
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !video || !video.videoWidth) return;
+    const draw = () => {
+      canvas.width = THUMBNAIL_WIDTH;
+      canvas.height = Math.max(1, Math.round((video.videoHeight / video.videoWidth) * THUMBNAIL_WIDTH));
+      canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+    };
+    draw();
+    video.addEventListener('seeked', draw);
+    return () => video.removeEventListener('seeked', draw);
+  }, [video, currentTime, sourceSize?.width, sourceSize?.height]);
+
+  const setCrop = (next: Rect | null) => {
+    onConfigChange({ ...config, sourceCrop: next && !sameCrop(next, WHOLE_FRAME) ? next : null });
+  };
+
+  const handlePointerDown = (handle: Handle | null) => (e: React.PointerEvent<HTMLDivElement>) => {
+    if (disabled) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { handle, clientX: e.clientX, clientY: e.clientY, crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    const frame = canvasRef.current?.getBoundingClientRect();
+    if (!drag || !frame) return;
+    // Handles sit inside the crop; don't let their moves reach it too
+    e.stopPropagation();
+    const dx = (e.clientX - drag.clientX) / frame.width;
+    const dy = (e.clientY - drag.clientY) / frame.height;
+    setCrop(dragCrop(drag.crop, drag.handle, dx, dy));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragRef.current) return;
+    e.stopPropagation();
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    dragRef.current = null;
+  };
+
+  const dragProps = (handle: Handle | null) => ({
+    onPointerDown: handlePointerDown(handle),
+    onPointerMove: handlePointerMove,
+    onPointerUp: handlePointerUp,
+    onPointerCancel: handlePointerUp,
+  });
+
+  const kept = sourceSize && getSourceRect(sourceSize, config.sourceCrop);
+
+  return (
+    <div className="bg-gray-700/50 p-2 rounded-lg border border-gray-600 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-2 text-xs text-gray-400 uppercase font-bold tracking-wider">
+          <Crop className="w-3 h-3" /> {t.sourceCrop}
+        </span>
+        <div className="flex items-center gap-2">
+          {kept && <span className="text-xs font-mono text-gray-500">{kept.width}×{kept.height}</span>}
+          {config.sourceCrop && (
+            <button
+              onClick={() => setCrop(null)}
+              disabled={disabled}
+              className="text-xs text-gray-400 hover:text-white disabled:opacity-50"
+            >
+              {t.resetCrop}
+            </button>
+          )}
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">{t.sourceCropHint}</p>
+
+      {isDetecting ? (
+        <div className="flex items-center gap-2 text-xs text-gray-400">
+          <Loader2 className="w-3 h-3 animate-spin" /> {t.detectingBars}
+        </div>
+      ) : detected ? (
+        !sameCrop(detected, config.sourceCrop) && (
+          <div className="flex items-center justify-between gap-2 bg-gray-900 border border-gray-600 rounded-lg px-2 py-1.5">
+            <span className="flex items-center gap-1.5 text-xs text-gray-300">
+              <ScanLine className="w-3 h-3 text-blue-400" /> {t.barsDetected}
+            </span>
+            <button
+              onClick={() => setCrop(detected)}
+              disabled={disabled}
+              className="px-2 py-0.5 bg-blue-600 hover:bg-blue-500 text-white rounded text-xs font-medium disabled:opacity-50"
+            >
+              {t.applyCrop}
+            </button>
+          </div>
+        )
+      ) : (
+        <p className="text-xs text-gray-500">{t.noBarsFound}</p>
+      )}
+
+      <div className="relative overflow-hidden rounded border border-gray-600 select-none touch-none">
+        <canvas ref={canvasRef} className="block w-full h-auto bg-black" />
+        <div
+          {...dragProps(null)}
+          className={`absolute border border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.6)] ${disabled ? '' : 'cursor-move'}`}
+          style={{
+            left: `${crop.x * 100}%`,
+            top: `${crop.y * 100}%`,
+            width: `${crop.width * 100}%`,
+            height: `${crop.height * 100}%`,
+          }}
+        >
+          {!disabled && HANDLES.map(handle => (
+            <div
+              key={`${handle.x},${handle.y}`}
+              {...dragProps(handle)}
+              className={`absolute w-2.5 h-2.5 -translate-x-1/2 -translate-y-1/2 bg-white border border-blue-500 rounded-sm ${CURSORS[`${handle.x},${handle.y}`]}`}
+              style={{ left: `${(handle.x + 1) * 50}%`, top: `${(handle.y + 1) * 50}%` }}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SourceCropEditor;
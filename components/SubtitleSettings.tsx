@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { SubtitleStyle, VideoConfig } from '../types';
+import { parseSubtitles } from '../services/subtitles';
+import { Captions, Upload, X } from 'lucide-react';
+
+interface SubtitleSettingsProps {
+  config: VideoConfig;
+  onConfigChange: (config: VideoConfig) => void;
+  disabled: boolean;
+  t: any; // Using any for simplicity with the translations object
+}
+
+const FONT_FAMILIES = [
+  "Inter, Arial, sans-serif",
+  "Georgia, serif",
+  "Impact, sans-serif",
+  "'Courier New', monospace",
+];
+
+const SubtitleSettings: React.FC<SubtitleSettingsProps> = ({ config, onConfigChange, disabled, t }) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const style = config.subtitleStyle;
+
+  const updateStyle = (changes: Partial<SubtitleStyle>) => {
+    onConfigChange({ ...config, subtitleStyle: { ...style, ...changes } });
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const cues = parseSubtitles(await file.text());
+    if (cues.length === 0) {
+      setError(t.noCuesFound);
+      return;
+    }
+    setError(null);
+    setFileName(file.name);
+    onConfigChange({ ...config, subtitles: cues });
+  };
+
+  const clearSubtitles = () => {
+    setFileName(null);
+    onConfigChange({ ...config, subtitles: [] });
+  };
+
+  return (
+    <div className="border-t border-gray-700 pt-4 mt-4">
+      <label className="text-xs text-gray-400 mb-2 block flex items-center gap-2">
+        <Captions className="w-3 h-3" /> {t.subtitles}
+      </label>
+
+      {config.subtitles.length === 0 ? (
+        <label className={`w-full py-2 bg-gray-700 hover:bg-gray-600 border border-gray-600 text-gray-200 rounded-lg text-xs font-medium transition-colors flex items-center justify-center gap-2 ${disabled ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+          <Upload className="w-3 h-3" /> {t.loadSubtitles}
+          <input type="file" accept=".srt,.vtt" className="hidden" disabled={disabled} onChange={handleFile} />
+        </label>
+      ) : (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 bg-gray-700/50 p-1.5 rounded-lg border border-gray-600">
+            <span className="text-xs text-white font-mono flex-1 truncate">{fileName ?? t.subtitles}</span>
+            <span className="text-xs text-gray-400">{config.subtitles.length} {t.cues}</span>
+            <button onClick={clearSubtitles} disabled={disabled} className="text-gray-400 hover:text-red-400 disabled:opacity-30">
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+
+          <div className="bg-gray-700/50 p-2 rounded-lg border border-gray-600 space-y-2">
+            <select
+              value={style.fontFamily}
+              disabled={disabled}
+              onChange={(e) => updateStyle({ fontFamily: e.target.value })}
+              className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-gray-300 focus:outline-none"
+            >
+              {FONT_FAMILIES.map((font) => (
+                <option key={font} value={font}>{font.split(',')[0].replace(/'/g, '')}</option>
+              ))}
+            </select>
+
+            <label className="flex items-center gap-2 text-xs text-gray-400">
+              <span className="w-16">{t.fontSize}</span>
+              <input type="range" min={24} max={120} step={2} disabled={disabled} value={style.fontSize}
+                onChange={(e) => updateStyle({ fontSize: Number(e.target.value) })}
+                className="flex-1 h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500 disabled:opacity-30" />
+              <span className="w-10 text-right font-mono text-gray-300">{style.fontSize}</span>
+            </label>
+
+            <label className="flex items-center gap-2 text-xs text-gray-400">
+              <span className="w-16">{t.verticalPosition}</span>
+              <input type="range" min={0} max={1} step={0.01} disabled={disabled} value={style.position}
+                onChange={(e) => updateStyle({ position: Number(e.target.value) })}
+                className="flex-1 h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500 disabled:opacity-30" />
+              <span className="w-10 text-right font-mono text-gray-300">{Math.round(style.position * 100)}%</span>
+            </label>
+
+            <div className="flex items-center gap-2 text-xs text-gray-400">
+              <span className="w-16">{t.textColor}</span>
+              <input type="color" value={style.color} disabled={disabled}
+                onChange={(e) => updateStyle({ color: e.target.value })}
+                className="w-6 h-6 rounded cursor-pointer bg-transparent border-0 p-0" />
+            </div>
+
+            <div className="flex items-center gap-2 text-xs text-gray-400">
+              <span className="w-16">{t.outline}</span>
+              <input type="color" value={style.outlineColor} disabled={disabled}
+                onChange={(e) => updateStyle({ outlineColor: e.target.value })}
+                className="w-6 h-6 rounded cursor-pointer bg-transparent border-0 p-0" />
+              <input type="range" min={0} max={10} step={1} disabled={disabled} value={style.outlineWidth}
+                onChange={(e) => updateStyle({ outlineWidth: Number(e.target.value) })}
+                className="flex-1 h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500 disabled:opacity-30" />
+              <span className="w-10 text-right font-mono text-gray-300">{style.outlineWidth}px</span>
+            </div>
+
+            <div className="flex items-center gap-2 text-xs text-gray-400">
+              <label className="w-16 flex items-center gap-1 cursor-pointer">
+                <input type="checkbox" checked={style.showBox} disabled={disabled}
+                  onChange={(e) => updateStyle({ showBox: e.target.checked })}
+                  className="accent-blue-500" />
+                {t.box}
+              </label>
+              <input type="color" value={style.boxColor} disabled={disabled || !style.showBox}
+                onChange={(e) => updateStyle({ boxColor: e.target.value })}
+                className="w-6 h-6 rounded cursor-pointer bg-transparent border-0 p-0 disabled:opacity-30" />
+              <input type="range" min={0.1} max={1} step={0.05} disabled={disabled || !style.showBox} value={style.boxOpacity}
+                onChange={(e) => updateStyle({ boxOpacity: Number(e.target.value) })}
+                className="flex-1 h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500 disabled:opacity-30" />
+              <span className="w-10 text-right font-mono text-gray-300">{Math.round(style.boxOpacity * 100)}%</span>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+    </div>
+  );
+};
+
+export default SubtitleSettings;
@@ -0,0 +1,155 @@
+import React, { useRef, useEffect, useState } from 'react';
+
+interface TrimBarProps {
+  duration: number;
+  currentTime: number;
+  trimStart: number;
+  trimEnd: number;
+  disabled: boolean;
+  onSeek: (time: number) => void;
+  onTrimChange: (start: number, end: number) => void;
+  t: any; // Using any for simplicity with the translations object
+}
+
+// Shortest range the handles can be squeezed to, in seconds
+const MIN_RANGE = 0.1;
+
+// 65.25s -> 01:05.250
+const formatTimecode = (seconds: number) => {
+  if (!Number.isFinite(seconds)) return "00:00.000";
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds - mins * 60;
+  return `${mins.toString().padStart(2, '0')}:${secs.toFixed(3).padStart(6, '0')}`;
+};
+
+// Accepts "ss", "mm:ss" or "hh:mm:ss", each with optional decimals
+const parseTimecode = (value: string): number | null => {
+  const parts = value.trim().split(':');
+  if (parts.length === 0 || parts.length > 3) return null;
+
+  let total = 0;
+  for (const part of parts) {
+    const n = Number(part);
+    if (part === '' || !Number.isFinite(n) || n < 0) return null;
+    total = total * 60 + n;
+  }
+  return total;
+};
+
+const TimecodeInput: React.FC<{ label: string; value: number; disabled: boolean; onCommit: (seconds: number) => void }> = ({ label, value, disabled, onCommit }) => {
+  const [draft, setDraft] = useState(formatTimecode(value));
+
+  useEffect(() => {
+    setDraft(formatTimecode(value));
+  }, [value]);
+
+  const commit = () => {
+    const parsed = parseTimecode(draft);
+    if (parsed === null) {
+      setDraft(formatTimecode(value));
+    } else {
+      onCommit(parsed);
+    }
+  };
+
+  return (
+    <label className="flex items-center gap-2 text-xs text-gray-400">
+      {label}
+      <input
+        type="text"
+        value={draft}
+        disabled={disabled}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => { if (e.key === 'Enter') commit(); }}
+        className="w-24 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs font-mono text-white focus:border-blue-500 focus:outline-none disabled:opacity-50"
+      />
+    </label>
+  );
+};
+
+const TrimBar: React.FC<TrimBarProps> = ({ duration, currentTime, trimStart, trimEnd, disabled, onSeek, onTrimChange, t }) => {
+  const barRef = useRef<HTMLDivElement>(null);
+  const [dragging, setDragging] = useState<'start' | 'end' | null>(null);
+
+  const safeDuration = duration || 1;
+
+  const timeFromPointer = (clientX: number) => {
+    const bar = barRef.current;
+    if (!bar) return 0;
+    const rect = bar.getBoundingClientRect();
+    const ratio = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    return ratio * safeDuration;
+  };
+
+  const setStart = (time: number) => {
+    onTrimChange(Math.min(Math.max(0, time), trimEnd - MIN_RANGE), trimEnd);
+  };
+
+  const setEnd = (time: number) => {
+    onTrimChange(trimStart, Math.max(Math.min(safeDuration, time), trimStart + MIN_RANGE));
+  };
+
+  const handlePointerDown = (handle: 'start' | 'end') => (e: React.PointerEvent<HTMLDivElement>) => {
+    if (disabled) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragging(handle);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragging) return;
+    const time = timeFromPointer(e.clientX);
+    if (dragging === 'start') setStart(time); else setEnd(time);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragging) return;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    setDragging(null);
+  };
+
+  const pct = (time: number) => `${(time / safeDuration) * 100}%`;
+
+  return (
+    <div className="mb-4 space-y-3">
+      <div
+        ref={barRef}
+        onClick={(e) => { if (!disabled) onSeek(timeFromPointer(e.clientX)); }}
+        className={`w-full bg-gray-700 h-1.5 rounded-full relative group ${disabled ? 'opacity-50' : 'cursor-pointer'}`}
+      >
+        {/* Selected range */}
+        <div
+          className="bg-blue-900/60 h-full absolute top-0"
+          style={{ left: pct(trimStart), width: pct(trimEnd - trimStart) }}
+        />
+        {/* Playhead */}
+        <div
+          className="bg-blue-500 h-full absolute top-0 left-0 rounded-full transition-all duration-100 ease-linear"
+          style={{ width: pct(currentTime) }}
+        />
+
+        {/* In/Out Handles */}
+        {(['start', 'end'] as const).map((handle) => (
+          <div
+            key={handle}
+            onPointerDown={handlePointerDown(handle)}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onClick={(e) => e.stopPropagation()}
+            className={`absolute -top-1.5 w-2 h-4 -ml-1 rounded-sm bg-yellow-400 shadow ${disabled ? '' : 'cursor-ew-resize hover:bg-yellow-300'}`}
+            style={{ left: pct(handle === 'start' ? trimStart : trimEnd) }}
+            title={handle === 'start' ? t.trimIn : t.trimOut}
+          />
+        ))}
+      </div>
+
+      <div className="flex justify-between">
+        <TimecodeInput label={t.trimIn} value={trimStart} disabled={disabled} onCommit={setStart} />
+        <TimecodeInput label={t.trimOut} value={trimEnd} disabled={disabled} onCommit={setEnd} />
+      </div>
+    </div>
+  );
+};
+
+export default TrimBar;
@@ -1,7 +1,45 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { Dimensions, ProcessingState, RESOLUTIONS, VideoConfig, AspectRatio, ScaleMode } from '../types';
-import { generateBackgroundImage } from '../services/geminiService';
-import { Download, Loader2, Play, RefreshCw, Wand2, Ratio, Settings2, Maximize2, Pause, Volume2, VolumeX, SkipBack, Link as LinkIcon, Maximize, Palette, Sparkles } from 'lucide-react';
+import { Dimensions, GeneratedBackground, ProcessingState, Rect, ScenePlate, RESOLUTIONS, VideoConfig, AspectRatio, ScaleMode, OutputFormat, BackgroundType, ExportTarget, ExportResult } from '../types';
+import { extendScene, generateBackgroundImage, getGenerationAspectRatio, loadProviderSettings, saveProviderSettings, suggestBackgroundPrompts } from '../services/backgroundGenerator';
+import { canvasToBlob, sampleFrames } from '../services/frameSampling';
+import { extractPalette, getPaletteGradients } from '../services/palette';
+import { detectBorders } from '../services/borderDetection';
+import { BackgroundProviderError, BackgroundProviderSettings, EmptyResponseError, MissingApiKeyError, QuotaExceededError } from '../services/backgroundProvider';
+import { createGeneratedBackground, deleteGeneratedBackground, loadGeneratedBackgrounds, loadScenePlate, saveGeneratedBackgrounds, saveScenePlate } from '../services/backgroundHistory';
+import { captureFrame, getScenePlateKey } from '../services/sceneExtension';
+import { BackgroundImage, composeFrame } from '../services/compositor';
+import { BackgroundClip, disposeBackgroundMedia, loadBackgroundMedia } from '../services/backgrounds';
+import { computeLayout, getSourceRect } from '../services/layout';
+import { getFocalPoint, upsertKeyframe } from '../services/focalPath';
+import { analyseSubjectPath } from '../services/autoReframe';
+import { runExportJob } from '../services/exportJob';
+import { createExportControl, ExportCancelledError, ExportControl } from '../services/exportControl';
+import { createZipArchive, getOutputDimensions, getTargetLabel, resolveTargetConfig, triggerDownload } from '../services/exportTargets';
+import TrimBar from './TrimBar';
+import SubtitleSettings from './SubtitleSettings';
+import OverlayLayers from './OverlayLayers';
+import AudioMixer from './AudioMixer';
+import ColorSettings from './ColorSettings';
+import GradientEditor from './GradientEditor';
+import BackgroundMediaPicker from './BackgroundMediaPicker';
+import BackgroundGallery from './BackgroundGallery';
+import BackgroundProviderPicker from './BackgroundProviderPicker';
+import SceneExtensionPanel from './SceneExtensionPanel';
+import PromptSuggestions from './PromptSuggestions';
+import PaletteSwatches from './PaletteSwatches';
+import SourceCropEditor from './SourceCropEditor';
+import ExportSettings from './ExportSettings';
+import PresetPicker from './PresetPicker';
+import { getLimitWarnings } from '../services/presets';
+import { Download, Loader2, Play, RefreshCw, Wand2, Ratio, Settings2, Maximize2, Pause, Volume2, VolumeX, SkipBack, Link as LinkIcon, Maximize, Palette, Sparkles, AlertTriangle, Droplets, Crosshair, ScanFace, FileVideo, Layers, Plus, X, Archive, Square, Blend, Image as ImageIcon, Film, Expand } from 'lucide-react';
+
+// Frames sent for prompt suggestions, and their long side
+const SUGGESTION_FRAMES = 4;
+const SUGGESTION_FRAME_SIDE = 512;
+// Frames the palette and bar detection look at, and their long side; both only need a rough look
+const ANALYSIS_FRAMES = 8;
+const ANALYSIS_FRAME_SIDE = 192;
+const PALETTE_SIZE = 6;
 
 interface VideoEditorProps {
   file: File;
@@ -18,14 +56,36 @@ const VideoEditor: React.FC<VideoEditorProps> = ({ file, config, onConfigChange,
   
   // Refs for loop control to avoid closure staleness
   const processingStateRef = useRef<ProcessingState>(ProcessingState.IDLE);
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const exportControlRef = useRef<ExportControl | null>(null);
+  // Pointer position and focal point when a Cover crop drag started
+  const cropDragRef = useRef<{ clientX: number; clientY: number; focal: { x: number; y: number } } | null>(null);
 
   const [videoSrc, setVideoSrc] = useState<string>('');
   const [processingState, setProcessingState] = useState<ProcessingState>(ProcessingState.IDLE);
   const [progress, setProgress] = useState<number>(0);
-  const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
-  const [recordingMimeType, setRecordingMimeType] = useState<string>('');
-  const [aiBgImage, setAiBgImage] = useState<HTMLImageElement | null>(null);
+  const [results, setResults] = useState<ExportResult[]>([]);
+  const [isZipping, setIsZipping] = useState(false);
+  const [isExportPaused, setIsExportPaused] = useState(false);
+  const [aiBgImage, setAiBgImage] = useState<ImageBitmap | null>(null);
+  // Past AI generations, newest first, and the one in use
+  const [backgroundHistory, setBackgroundHistory] = useState<GeneratedBackground[]>([]);
+  const [selectedBackgroundId, setSelectedBackgroundId] = useState<string | null>(null);
+  const [variationCount, setVariationCount] = useState(2);
+  const [providerSettings, setProviderSettings] = useState<BackgroundProviderSettings>(loadProviderSettings);
+  // Outpainted plate for this file at the output's ratio, and its decoded image
+  const [scenePlate, setScenePlate] = useState<ScenePlate | null>(null);
+  const [scenePlateImage, setScenePlateImage] = useState<ImageBitmap | null>(null);
+  const [promptSuggestions, setPromptSuggestions] = useState<string[]>([]);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  // Dominant colors of the video, for swatches and ready-made gradients
+  const [palette, setPalette] = useState<string[]>([]);
+  // Crop that removes the bars baked into the video, if it has any
+  const [detectedCrop, setDetectedCrop] = useState<Rect | null>(null);
+  const [isDetectingBars, setIsDetectingBars] = useState(false);
+  // Decoded upload for the Image and Video background types
+  const [mediaBackground, setMediaBackground] = useState<ImageBitmap | BackgroundClip | null>(null);
+  const [isLoadingBackground, setIsLoadingBackground] = useState(false);
+  const [backgroundError, setBackgroundError] = useState<string | null>(null);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   
   // Playback state
@@ -35,6 +95,13 @@ const VideoEditor: React.FC<VideoEditorProps> = ({ file, config, onConfigChange,
   const [isMuted, setIsMuted] = useState(false);
   const [volume, setVolume] = useState(1);
 
+  // Auto reframe state (null when not analysing)
+  const [reframeProgress, setReframeProgress] = useState<number | null>(null);
+
+  // Multi-target export state
+  const [exportTargets, setExportTargets] = useState<ExportTarget[]>([]);
+  const [customTargetSize, setCustomTargetSize] = useState<Dimensions>({ width: 1920, height: 1080 });
+
   // Sync ref with state
   useEffect(() => {
     processingStateRef.current = processingState;
@@ -48,16 +115,15 @@ const VideoEditor: React.FC<VideoEditorProps> = ({ file, config, onConfigChange,
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
+  // Export range; undefined trim points mean the start/end of the video
+  const trimStart = config.trimStart ?? 0;
+  const trimEnd = config.trimEnd ?? videoDuration;
+
   // Helper to get effective dimensions
-  const getTargetDimensions = useCallback((): Dimensions => {
-    if (config.aspectRatio === AspectRatio.CUSTOM) {
-        return {
-            width: config.customWidth || 1920,
-            height: config.customHeight || 1080
-        };
-    }
-    return RESOLUTIONS[config.aspectRatio];
-  }, [config.aspectRatio, config.customWidth, config.customHeight]);
+  const getTargetDimensions = useCallback(
+    (): Dimensions => getOutputDimensions(config),
+    [config.aspectRatio, config.customWidth, config.customHeight, config.resolutionScale]
+  );
   
   // Create object URL for the uploaded file
   useEffect(() => {
@@ -66,23 +132,232 @@ const VideoEditor: React.FC<VideoEditorProps> = ({ file, config, onConfigChange,
     return () => URL.revokeObjectURL(url);
   }, [file]);
 
-  // Handle AI Background Generation
-  const generateAIBackground = async () => {
-    if (!config.aiPrompt.trim()) return;
+  // Exported files own their object URLs; release them once they're replaced or cleared
+  useEffect(() => () => results.forEach(result => URL.revokeObjectURL(result.url)), [results]);
+
+  // Extract the palette and look for baked-in bars once per file, locally
+  useEffect(() => {
+    let cancelled = false;
+    setPalette([]);
+    setDetectedCrop(null);
+    setIsDetectingBars(true);
+    sampleFrames(file, ANALYSIS_FRAMES, { maxSide: ANALYSIS_FRAME_SIDE })
+      .then(frames => {
+        const images = frames.map(({ canvas }) => canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height));
+        const all = new Uint8ClampedArray(images.reduce((total, image) => total + image.data.length, 0));
+        let offset = 0;
+        for (const { data } of images) {
+            all.set(data, offset);
+            offset += data.length;
+        }
+        if (cancelled) return;
+        setPalette(extractPalette(all, PALETTE_SIZE));
+        setDetectedCrop(detectBorders(images));
+      })
+      .catch(err => console.warn("Could not analyse the video's frames:", err))
+      .finally(() => { if (!cancelled) setIsDetectingBars(false); });
+    return () => { cancelled = true; };
+  }, [file]);
+
+  // Decode the uploaded background whenever the file or its type changes
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: ImageBitmap | BackgroundClip | null = null;
+    setMediaBackground(null);
+    setBackgroundError(null);
+    setIsLoadingBackground(!!config.backgroundMedia);
+
+    loadBackgroundMedia(config)
+      .then(media => {
+        if (cancelled) disposeBackgroundMedia(media);
+        else {
+          loaded = media;
+          setMediaBackground(media);
+        }
+      })
+      .catch(err => {
+        if (!cancelled) setBackgroundError(err instanceof Error ? err.message : t.backgroundLoadFailed);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingBackground(false);
+      });
+
+    return () => {
+      cancelled = true;
+      disposeBackgroundMedia(loaded);
+    };
+  }, [config.backgroundMedia, config.backgroundType]);
+
+  // What composeFrame draws behind the video for the current background type
+  const backgroundImage: BackgroundImage | null =
+    config.backgroundType === BackgroundType.AI ? aiBgImage
+    : config.backgroundType === BackgroundType.EXTENDED_SCENE ? scenePlateImage
+    : mediaBackground;
+
+  const setBackgroundType = (backgroundType: BackgroundType) => {
+    // An uploaded image can't serve as a background video and vice versa
+    const media = config.backgroundMedia;
+    const keepMedia = media && (
+        (backgroundType === BackgroundType.IMAGE && media.type.startsWith('image/')) ||
+        (backgroundType === BackgroundType.VIDEO && media.type.startsWith('video/'))
+    );
+    onConfigChange({ ...config, backgroundType, backgroundMedia: keepMedia ? media : null });
+  };
+
+  useEffect(() => {
+    loadGeneratedBackgrounds().then(setBackgroundHistory);
+  }, []);
+
+  const changeProviderSettings = (settings: BackgroundProviderSettings) => {
+    setProviderSettings(settings);
+    saveProviderSettings(settings);
+  };
+
+  const describeGenerationError = (err: unknown): string => {
+    if (err instanceof MissingApiKeyError) return t.errorMissingKey;
+    if (err instanceof QuotaExceededError) return t.errorQuota;
+    if (err instanceof EmptyResponseError) return t.errorEmptyResponse;
+    if (err instanceof BackgroundProviderError) return err.message;
+    return t.errorGenerateFailed;
+  };
+
+  // Ratio AI backgrounds are generated at for the current output
+  const generationAspectRatio = getGenerationAspectRatio(getTargetDimensions());
+
+  // Pick up a plate extended in an earlier session for this file and ratio
+  const scenePlateKey = getScenePlateKey(file, generationAspectRatio);
+  useEffect(() => {
+    let cancelled = false;
+    setScenePlate(null);
+    loadScenePlate(scenePlateKey).then(plate => {
+      if (!cancelled) setScenePlate(plate);
+    });
+    return () => { cancelled = true; };
+  }, [scenePlateKey]);
+
+  useEffect(() => {
+    if (!scenePlate) {
+      setScenePlateImage(null);
+      return;
+    }
+    let cancelled = false;
+    let image: ImageBitmap | null = null;
+    createImageBitmap(scenePlate.image).then(bitmap => {
+      if (cancelled) bitmap.close();
+      else {
+        image = bitmap;
+        setScenePlateImage(bitmap);
+      }
+    });
+    return () => {
+      cancelled = true;
+      image?.close();
+    };
+  }, [scenePlate]);
+
+  // Outpaints the frame showing in the preview and caches the plate for this file and ratio
+  const extendSceneFromFrame = async (): Promise<ImageBitmap | null> => {
+    const video = videoRef.current;
+    if (!video) return null;
+
+    setProcessingState(ProcessingState.GENERATING_BACKGROUND);
+    setErrorMsg(null);
+
+    try {
+      const frameTime = video.currentTime;
+      const plateUrl = await extendScene(providerSettings, await captureFrame(video, config.sourceCrop), generationAspectRatio);
+      const plate: ScenePlate = {
+        key: scenePlateKey,
+        frameTime,
+        aspectRatio: generationAspectRatio,
+        createdAt: Date.now(),
+        image: await (await fetch(plateUrl)).blob(),
+      };
+      saveScenePlate(plate).catch(err => console.warn("Could not cache the scene plate:", err));
+      // Decoded here too, so an export waiting on it doesn't depend on the effect above
+      const image = await createImageBitmap(plate.image);
+      setScenePlate(plate);
+      setProcessingState(ProcessingState.IDLE);
+      return image;
+    } catch (err) {
+      setErrorMsg(describeGenerationError(err));
+      setProcessingState(ProcessingState.IDLE);
+      return null;
+    }
+  };
+
+  // Samples frames across the trimmed range and asks the provider for matching prompts
+  const suggestPrompts = async () => {
+    setIsSuggesting(true);
+    setErrorMsg(null);
+    try {
+      const frames = await sampleFrames(file, SUGGESTION_FRAMES, { maxSide: SUGGESTION_FRAME_SIDE, start: trimStart, end: config.trimEnd });
+      const blobs = await Promise.all(frames.map(({ canvas }) => canvasToBlob(canvas)));
+      setPromptSuggestions(await suggestBackgroundPrompts(providerSettings, blobs));
+    } catch (err) {
+      setErrorMsg(describeGenerationError(err));
+    } finally {
+      setIsSuggesting(false);
+    }
+  };
+
+  const pickSuggestion = (prompt: string) => {
+    onConfigChange({ ...config, aiPrompt: prompt });
+    generateAIBackground(prompt);
+  };
+
+  const selectAIBackground = async (entry: GeneratedBackground): Promise<ImageBitmap> => {
+    const image = await createImageBitmap(entry.image);
+    setAiBgImage(previous => {
+      previous?.close();
+      return image;
+    });
+    setSelectedBackgroundId(entry.id);
+    return image;
+  };
+
+  const deleteAIBackground = async (entry: GeneratedBackground) => {
+    try {
+      await deleteGeneratedBackground(entry.id);
+      setBackgroundHistory(history => history.filter(candidate => candidate.id !== entry.id));
+      // The image stays in use until another is picked; it's only gone from the gallery
+      if (entry.id === selectedBackgroundId) setSelectedBackgroundId(null);
+    } catch (err) {
+      console.error("Could not delete background:", err);
+    }
+  };
+
+  // Handle AI Background Generation. Generates the variations at the output's ratio, keeps them
+  // in the gallery and uses the first. `promptOverride` is for a prompt not yet in the config.
+  const generateAIBackground = async (promptOverride?: string): Promise<ImageBitmap | null> => {
+    const prompt = (promptOverride ?? config.aiPrompt).trim();
+    if (!prompt) return null;
     
     setProcessingState(ProcessingState.GENERATING_BACKGROUND);
     setErrorMsg(null);
     
     try {
-      const base64Image = await generateBackgroundImage(config.aiPrompt + " texture, abstract background, high quality, seamless pattern style");
-      const img = new Image();
-      img.src = base64Image;
-      await new Promise((resolve) => { img.onload = resolve; });
-      setAiBgImage(img);
+      const images = await generateBackgroundImage(
+        providerSettings,
+        prompt + " texture, abstract background, high quality, seamless pattern style",
+        generationAspectRatio,
+        variationCount
+      );
+      const entries = await Promise.all(images.map(image => createGeneratedBackground(prompt, generationAspectRatio, image)));
+      try {
+        setBackgroundHistory(await saveGeneratedBackgrounds(entries));
+      } catch (err) {
+        // Still usable for this session without the gallery
+        console.warn("Could not save generated backgrounds:", err);
+        setBackgroundHistory(history => [...entries, ...history]);
+      }
+      const image = await selectAIBackground(entries[0]);
       setProcessingState(ProcessingState.IDLE);
+      return image;
     } catch (err) {
-      setErrorMsg("Failed to generate background. Check API Key or try again.");
+      setErrorMsg(describeGenerationError(err));
       setProcessingState(ProcessingState.IDLE);
+      return null;
     }
   };
 
@@ -95,7 +370,9 @@ const VideoEditor: React.FC<VideoEditorProps> = ({ file, config, onConfigChange,
 
     if (config.maintainAspectRatio && videoRef.current) {
         const vid = videoRef.current;
-        const ratio = vid.videoWidth / vid.videoHeight;
+        // The ratio of what's left after the source crop
+        const { width, height } = getSourceRect({ width: vid.videoWidth, height: vid.videoHeight }, config.sourceCrop);
+        const ratio = width / height;
         
         if (dimension === 'width') {
             newConfig.customHeight = Math.round(numericValue / ratio);
@@ -107,7 +384,7 @@ const VideoEditor: React.FC<VideoEditorProps> = ({ file, config, onConfigChange,
     onConfigChange(newConfig);
   };
 
-  // Draw a single frame to the canvas
+  // Draw the current video frame to the preview canvas
   const drawFrame = useCallback(() => {
     const video = videoRef.current;
     const canvas = canvasRef.current;
@@ -116,72 +393,8 @@ const VideoEditor: React.FC<VideoEditorProps> = ({ file, config, onConfigChange,
     const ctx = canvas.getContext('2d', { alpha: false }); // Optimize for no alpha
     if (!ctx) return;
 
-    const targetDim = getTargetDimensions();
-    
-    // Clear canvas
-    ctx.fillStyle = config.backgroundColor;
-    ctx.fillRect(0, 0, targetDim.width, targetDim.height);
-
-    if (config.scaleMode === ScaleMode.CONTAIN) {
-        // Draw Background (Image or Color)
-        if (config.useAIBackground && aiBgImage) {
-            const scale = Math.max(targetDim.width / aiBgImage.width, targetDim.height / aiBgImage.height);
-            const x = (targetDim.width / 2) - (aiBgImage.width / 2) * scale;
-            const y = (targetDim.height / 2) - (aiBgImage.height / 2) * scale;
-            ctx.drawImage(aiBgImage, x, y, aiBgImage.width * scale, aiBgImage.height * scale);
-            
-            ctx.fillStyle = 'rgba(0,0,0,0.3)';
-            ctx.fillRect(0, 0, targetDim.width, targetDim.height);
-        } else {
-            ctx.fillStyle = config.backgroundColor;
-            ctx.fillRect(0, 0, targetDim.width, targetDim.height);
-        }
-    }
-
-    let w = targetDim.width;
-    let h = targetDim.height;
-    let x = 0;
-    let y = 0;
-
-    if (config.scaleMode === ScaleMode.STRETCH) {
-        w = targetDim.width;
-        h = targetDim.height;
-        x = 0;
-        y = 0;
-    } else if (config.scaleMode === ScaleMode.COVER) {
-         const scale = Math.max(
-            targetDim.width / video.videoWidth,
-            targetDim.height / video.videoHeight
-         );
-         w = video.videoWidth * scale;
-         h = video.videoHeight * scale;
-         x = (targetDim.width - w) / 2;
-         y = (targetDim.height - h) / 2;
-    } else {
-        // CONTAIN
-        const scale = Math.min(
-            targetDim.width / video.videoWidth,
-            targetDim.height / video.videoHeight
-         );
-         w = video.videoWidth * scale;
-         h = video.videoHeight * scale;
-         x = (targetDim.width - w) / 2;
-         y = (targetDim.height - h) / 2;
-
-        ctx.shadowColor = "rgba(0, 0, 0, 0.5)";
-        ctx.shadowBlur = 20;
-        ctx.shadowOffsetX = 0;
-        ctx.shadowOffsetY = 10;
-    }
-
-    ctx.drawImage(video, x, y, w, h);
-
-    ctx.shadowColor = "transparent";
-    ctx.shadowBlur = 0;
-    ctx.shadowOffsetX = 0;
-    ctx.shadowOffsetY = 0;
-
-  }, [getTargetDimensions, config.backgroundColor, config.useAIBackground, aiBgImage, config.scaleMode]);
+    composeFrame(ctx, video, video.videoWidth, video.videoHeight, config, backgroundImage, video.currentTime);
+  }, [config, backgroundImage]);
 
   // Playback Loop Effect (For Preview Only)
   useEffect(() => {
@@ -195,10 +408,20 @@ const VideoEditor: React.FC<VideoEditorProps> = ({ file, config, onConfigChange,
         setIsPlaying(false);
         return;
       }
+      // Stop at the out point so the preview only plays the exported range
+      if (video.currentTime >= trimEnd) {
+        video.pause();
+        setIsPlaying(false);
+        return;
+      }
       drawFrame();
       animationFrameId = requestAnimationFrame(loop);
     };
 
+    if (video.currentTime < trimStart || video.currentTime >= trimEnd) {
+      video.currentTime = trimStart;
+    }
+
     video.play().catch(e => {
         if (e.name !== 'AbortError') {
              console.error("Preview play error", e);
@@ -212,7 +435,7 @@ const VideoEditor: React.FC<VideoEditorProps> = ({ file, config, onConfigChange,
       cancelAnimationFrame(animationFrameId);
       video.pause();
     };
-  }, [isPlaying, drawFrame]);
+  }, [isPlaying, drawFrame, trimStart, trimEnd]);
 
   // Time Update Listener
   useEffect(() => {
@@ -269,129 +492,96 @@ const VideoEditor: React.FC<VideoEditorProps> = ({ file, config, onConfigChange,
     
     setIsPlaying(false); // Update React state immediately
 
-    if (config.scaleMode === ScaleMode.CONTAIN && config.useAIBackground && !aiBgImage && config.aiPrompt) {
-        await generateAIBackground();
+    let exportBackground = backgroundImage;
+    if (config.scaleMode === ScaleMode.CONTAIN && config.backgroundType === BackgroundType.AI && !aiBgImage && config.aiPrompt) {
+        // Reuse an earlier generation of the same prompt rather than paying for a new one
+        const previous = backgroundHistory.find(entry => entry.prompt === config.aiPrompt.trim() && entry.aspectRatio === generationAspectRatio);
+        exportBackground = previous ? await selectAIBackground(previous) : await generateAIBackground();
+    }
+    if (config.scaleMode === ScaleMode.CONTAIN && config.backgroundType === BackgroundType.EXTENDED_SCENE && !scenePlateImage) {
+        exportBackground = await extendSceneFromFrame();
     }
 
     setProcessingState(ProcessingState.RECORDING);
-    setDownloadUrl(null);
+    setResults([]);
     setProgress(0);
     setErrorMsg(null);
+    setIsExportPaused(false);
+
+    const control = createExportControl();
+    exportControlRef.current = control;
+
+    // Without ticked targets, export just what the preview shows
+    const exportConfigs = exportTargets.length > 0
+        ? exportTargets.map(target => resolveTargetConfig(config, target))
+        : [config];
 
-    // Prioritize WebM for stability
-    const mimeTypes = [
-        'video/webm;codecs=vp9,opus',
-        'video/webm;codecs=vp8,opus',
-        'video/webm',
-        'video/mp4'
-    ];
-    const selectedMimeType = mimeTypes.find(type => MediaRecorder.isTypeSupported(type)) || 'video/webm';
-    setRecordingMimeType(selectedMimeType);
-
-    const stream = canvas.captureStream(30);
-    
-    // Improved Audio Capture
     try {
-        const videoEl = video as any;
-        const audioStream = videoEl.captureStream ? videoEl.captureStream() : 
-                           videoEl.mozCaptureStream ? videoEl.mozCaptureStream() : null;
-        
-        if (audioStream) {
-            const audioTracks = audioStream.getAudioTracks();
-            if (audioTracks.length > 0) {
-                stream.addTrack(audioTracks[0]);
-            }
+        const exported = await runExportJob({
+            file,
+            configs: exportConfigs,
+            format: config.outputFormat,
+            backgroundImage: exportBackground,
+            control,
+            onProgress: setProgress,
+        });
+        setResults(exported);
+        setProcessingState(ProcessingState.COMPLETED);
+    } catch (err) {
+        // Cancelling just returns to the editor
+        if (!(err instanceof ExportCancelledError)) {
+            setErrorMsg(err instanceof Error ? err.message : "Export failed.");
         }
-    } catch (e) {
-        console.warn("Could not capture audio track:", e);
+        setProgress(0);
+        setProcessingState(ProcessingState.IDLE);
+    } finally {
+        exportControlRef.current = null;
     }
+  };
 
-    const mediaRecorder = new MediaRecorder(stream, {
-      mimeType: selectedMimeType,
-      videoBitsPerSecond: 8000000 // 8 Mbps for high quality
-    });
-    
-    mediaRecorderRef.current = mediaRecorder;
+  const toggleExportPause = () => {
+    const control = exportControlRef.current;
+    if (!control) return;
+    if (control.getState() === "paused") control.resume();
+    else control.pause();
+    setIsExportPaused(control.getState() === "paused");
+  };
 
-    const chunks: Blob[] = [];
-    mediaRecorder.ondataavailable = (e) => {
-      if (e.data && e.data.size > 0) {
-          chunks.push(e.data);
-      }
-    };
+  // Stop a running export if the editor goes away
+  useEffect(() => () => exportControlRef.current?.cancel(), []);
 
-    mediaRecorder.onstop = () => {
-      const blob = new Blob(chunks, { type: selectedMimeType });
-      if (blob.size === 0) {
-          setErrorMsg("Recording failed (0 bytes). Try a different browser or file.");
-          setProcessingState(ProcessingState.IDLE);
-          return;
-      }
-      const url = URL.createObjectURL(blob);
-      setDownloadUrl(url);
-      setProcessingState(ProcessingState.COMPLETED);
-      
-      // Restore video state
-      video.currentTime = video.duration / 2; 
-      video.volume = volume; // Restore user volume
-      video.muted = isMuted; // Restore user mute preference
-      setIsPlaying(false);
-    };
+  const toggleExportTarget = (ratio: AspectRatio) => {
+    const existing = exportTargets.find(target => target.overrides.aspectRatio === ratio);
+    if (existing) {
+        setExportTargets(exportTargets.filter(target => target !== existing));
+    } else {
+        setExportTargets([...exportTargets, { id: crypto.randomUUID(), overrides: { aspectRatio: ratio } }]);
+    }
+  };
 
-    // Start recording with timeslice
-    mediaRecorder.start(1000);
+  const addCustomExportTarget = () => {
+    if (!customTargetSize.width || !customTargetSize.height) return;
+    setExportTargets([...exportTargets, {
+        id: crypto.randomUUID(),
+        overrides: { aspectRatio: AspectRatio.CUSTOM, customWidth: customTargetSize.width, customHeight: customTargetSize.height }
+    }]);
+  };
 
-    // Prepare video for recording
-    video.currentTime = 0;
-    
-    // IMPORTANT: We need audio to capture it, but we don't want to blast the user.
-    // Setting volume to very low allows capture in most browsers without annoyance.
-    video.muted = false; 
-    video.volume = 0.01; 
-    
-    await new Promise(r => setTimeout(r, 200)); // buffer
-    
+  const updateExportTarget = (id: string, overrides: Partial<VideoConfig>) => {
+    setExportTargets(exportTargets.map(target =>
+        target.id === id ? { ...target, overrides: { ...target.overrides, ...overrides } } : target
+    ));
+  };
+
+  const downloadZip = async () => {
+    setIsZipping(true);
     try {
-        await video.play();
+        triggerDownload(await createZipArchive(results), 'resized-video-pro.zip');
     } catch (e) {
-        console.error("Auto-play failed during recording:", e);
-        setErrorMsg("Could not play video for recording.");
-        setProcessingState(ProcessingState.IDLE);
-        return;
-    }
-    
-    // OPTIMIZED RENDER LOOP
-    const renderLoop = (_now: number, metadata: VideoFrameCallbackMetadata) => {
-        if (processingStateRef.current !== ProcessingState.RECORDING) return;
-
-        drawFrame();
-        
-        // Update progress bar
-        const pct = (metadata.mediaTime / video.duration) * 100;
-        setProgress(pct);
-
-        if (video.ended) {
-             // Finish up
-             setTimeout(() => {
-                 if (mediaRecorder.state === 'recording') mediaRecorder.stop();
-             }, 500);
-             return;
-        }
-
-        // Schedule next frame
-        if ('requestVideoFrameCallback' in video) {
-            video.requestVideoFrameCallback(renderLoop);
-        } else {
-            // Fallback for browsers without rVFC
-            const currentTime = (video as HTMLVideoElement).currentTime;
-            requestAnimationFrame(() => renderLoop(performance.now(), { mediaTime: currentTime } as any));
-        }
-    };
-    
-    if ('requestVideoFrameCallback' in video) {
-        video.requestVideoFrameCallback(renderLoop);
-    } else {
-        requestAnimationFrame(() => renderLoop(performance.now(), { mediaTime: 0 } as any));
+        console.error("ZIP creation failed:", e);
+        setErrorMsg("Could not create the ZIP archive.");
+    } finally {
+        setIsZipping(false);
     }
   };
 
@@ -429,15 +619,106 @@ const VideoEditor: React.FC<VideoEditorProps> = ({ file, config, onConfigChange,
 
   const handleSeekReset = () => {
       if (videoRef.current) {
-          videoRef.current.currentTime = 0;
+          videoRef.current.currentTime = trimStart;
           if (!isPlaying) drawFrame();
       }
   };
+
+  // Dragging the preview in Cover mode moves the picture and keys the focal point at the current time
+  const handleCropPointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+      const video = videoRef.current;
+      if (!video || config.scaleMode !== ScaleMode.COVER || processingState !== ProcessingState.IDLE) return;
+      e.currentTarget.setPointerCapture(e.pointerId);
+      cropDragRef.current = {
+          clientX: e.clientX,
+          clientY: e.clientY,
+          focal: getFocalPoint(config.focalPath, video.currentTime),
+      };
+  };
+
+  const handleCropPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+      const drag = cropDragRef.current;
+      const video = videoRef.current;
+      if (!drag || !video || !video.videoWidth) return;
+
+      const rect = e.currentTarget.getBoundingClientRect();
+      const { output: targetDim, video: { width: scaledWidth, height: scaledHeight } } =
+          computeLayout({ width: video.videoWidth, height: video.videoHeight }, config);
+
+      // Screen pixels -> output pixels -> fraction of the scaled source
+      const dx = ((e.clientX - drag.clientX) * (targetDim.width / rect.width)) / scaledWidth;
+      const dy = ((e.clientY - drag.clientY) * (targetDim.height / rect.height)) / scaledHeight;
+
+      // Keep the focal point where the crop can still follow it
+      const halfX = targetDim.width / (2 * scaledWidth);
+      const halfY = targetDim.height / (2 * scaledHeight);
+      onConfigChange({
+          ...config,
+          focalPath: upsertKeyframe(config.focalPath, {
+              time: video.currentTime,
+              x: Math.min(1 - halfX, Math.max(halfX, drag.focal.x - dx)),
+              y: Math.min(1 - halfY, Math.max(halfY, drag.focal.y - dy)),
+          }),
+      });
+  };
+
+  const handleCropPointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+      if (!cropDragRef.current) return;
+      e.currentTarget.releasePointerCapture(e.pointerId);
+      cropDragRef.current = null;
+  };
+
+  // Replace the crop path with one that follows the detected subject
+  const runAutoReframe = async () => {
+      setIsPlaying(false);
+      setErrorMsg(null);
+      setReframeProgress(0);
+      try {
+          const keyframes = await analyseSubjectPath({
+              file,
+              outputSize: getTargetDimensions(),
+              sourceCrop: config.sourceCrop,
+              start: config.trimStart,
+              end: config.trimEnd,
+              onProgress: setReframeProgress,
+          });
+          onConfigChange({ ...config, focalPath: keyframes });
+      } catch (err) {
+          setErrorMsg(err instanceof Error ? err.message : "Auto reframe failed.");
+      } finally {
+          setReframeProgress(null);
+      }
+  };
+
+  const removeKeyframe = (time: number) => {
+      onConfigChange({ ...config, focalPath: config.focalPath.filter(keyframe => keyframe.time !== time) });
+  };
+
+  const handleSeek = (time: number) => {
+      if (videoRef.current) {
+          videoRef.current.currentTime = time;
+          setCurrentTime(time);
+      }
+  };
+
+  const handleTrimChange = (start: number, end: number) => {
+      // Show the frame at whichever handle moved
+      handleSeek(start !== trimStart ? start : end);
+      onConfigChange({
+          ...config,
+          trimStart: start > 0 ? start : undefined,
+          trimEnd: end < videoDuration ? end : undefined,
+      });
+  };
   
   const currentDim = getTargetDimensions();
 
-  // Helper to determine file extension based on selected MIME type
-  const fileExtension = recordingMimeType.includes('mp4') ? 'mp4' : 'webm';
+  // Platform limits of the applied preset; uses the real file sizes once the export is done
+  const limitWarnings = getLimitWarnings(
+      config,
+      trimEnd - trimStart,
+      results.length > 0 ? results.map(result => result.blob.size) : undefined
+  );
 
   const isProcessing = processingState === ProcessingState.RECORDING || processingState === ProcessingState.GENERATING_BACKGROUND;
 
@@ -477,7 +758,10 @@ const VideoEditor: React.FC<VideoEditorProps> = ({ file, config, onConfigChange,
            {/* The Canvas showing the composition */}
            <canvas 
              ref={canvasRef}
-             className="max-w-full max-h-[70vh] w-auto h-auto object-contain shadow-2xl"
+             onPointerDown={handleCropPointerDown}
+             onPointerMove={handleCropPointerMove}
+             onPointerUp={handleCropPointerUp}
+             className={`max-w-full max-h-[70vh] w-auto h-auto object-contain shadow-2xl ${config.scaleMode === ScaleMode.COVER ? 'cursor-move touch-none' : ''}`}
              style={{ aspectRatio: currentDim.width / currentDim.height }}
            />
 
@@ -493,13 +777,34 @@ const VideoEditor: React.FC<VideoEditorProps> = ({ file, config, onConfigChange,
            {/* Loading Overlay - HIGHER Z-INDEX */}
            {processingState === ProcessingState.RECORDING && (
              <div className="absolute inset-0 bg-gray-900 flex flex-col items-center justify-center z-50">
-                <Loader2 className="w-12 h-12 text-blue-500 animate-spin mb-4" />
-                <p className="text-white font-medium text-lg animate-pulse">{t.renderingVideo}</p>
+                {isExportPaused ? (
+                    <Pause className="w-12 h-12 text-yellow-500 mb-4" />
+                ) : (
+                    <Loader2 className="w-12 h-12 text-blue-500 animate-spin mb-4" />
+                )}
+                <p className={`text-white font-medium text-lg ${isExportPaused ? '' : 'animate-pulse'}`}>
+                    {isExportPaused ? t.exportPaused : t.renderingVideo}
+                </p>
                 <p className="text-gray-400 text-sm mt-2">{t.waitMoment}</p>
                 <div className="w-64 h-2 bg-gray-800 rounded-full mt-4 overflow-hidden border border-gray-700">
-                    <div className="h-full bg-blue-500 transition-all duration-300 ease-out" style={{ width: `${progress}%` }}></div>
+                    <div className={`h-full transition-all duration-300 ease-out ${isExportPaused ? 'bg-yellow-500' : 'bg-blue-500'}`} style={{ width: `${progress}%` }}></div>
                 </div>
                 <p className="text-blue-400 font-mono mt-2">{Math.round(progress)}%</p>
+                <div className="flex gap-2 mt-4">
+                    <button
+                        onClick={toggleExportPause}
+                        className="flex items-center gap-2 px-4 py-2 bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded-lg text-sm text-gray-200 transition-colors"
+                    >
+                        {isExportPaused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+                        {isExportPaused ? t.resumeExport : t.pauseExport}
+                    </button>
+                    <button
+                        onClick={() => exportControlRef.current?.cancel()}
+                        className="flex items-center gap-2 px-4 py-2 bg-red-900/40 hover:bg-red-900/60 border border-red-800 rounded-lg text-sm text-red-200 transition-colors"
+                    >
+                        <Square className="w-4 h-4" /> {t.cancelExport}
+                    </button>
+                </div>
              </div>
            )}
 
@@ -520,6 +825,14 @@ const VideoEditor: React.FC<VideoEditorProps> = ({ file, config, onConfigChange,
                 </div>
                 
                 <div className="space-y-4">
+                    {/* Platform & Saved Presets */}
+                    <PresetPicker
+                        config={config}
+                        onConfigChange={onConfigChange}
+                        disabled={processingState !== ProcessingState.IDLE}
+                        t={t}
+                    />
+
                     {/* Ratio Selector */}
                     <div>
                         <label className="text-xs text-gray-400 mb-2 block flex items-center gap-2">
@@ -591,6 +904,18 @@ const VideoEditor: React.FC<VideoEditorProps> = ({ file, config, onConfigChange,
                         </div>
                     )}
 
+                    {/* Source Crop - applied before the resize mode */}
+                    <SourceCropEditor
+                        config={config}
+                        onConfigChange={onConfigChange}
+                        video={videoRef.current}
+                        currentTime={currentTime}
+                        detected={detectedCrop}
+                        isDetecting={isDetectingBars}
+                        disabled={processingState !== ProcessingState.IDLE}
+                        t={t}
+                    />
+
                     {/* Resize Mode Selector */}
                     <div>
                         <label className="text-xs text-gray-400 mb-2 block flex items-center gap-2">
@@ -614,6 +939,162 @@ const VideoEditor: React.FC<VideoEditorProps> = ({ file, config, onConfigChange,
                         </div>
                     </div>
 
+                    {/* Cover Crop Path - Only visible if ScaleMode is COVER */}
+                    {config.scaleMode === ScaleMode.COVER && (
+                        <div className="bg-gray-700/50 p-2 rounded-lg border border-gray-600 space-y-2">
+                            <div className="flex items-center justify-between">
+                                <span className="flex items-center gap-2 text-xs text-gray-400 uppercase font-bold tracking-wider">
+                                    <Crosshair className="w-3 h-3" /> {t.cropPath}
+                                </span>
+                                {config.focalPath.length > 0 && (
+                                    <button
+                                        onClick={() => onConfigChange({ ...config, focalPath: [] })}
+                                        disabled={processingState !== ProcessingState.IDLE}
+                                        className="text-xs text-gray-400 hover:text-white disabled:opacity-50"
+                                    >
+                                        {t.recentre}
+                                    </button>
+                                )}
+                            </div>
+                            <p className="text-xs text-gray-500">{t.dragToReframe}</p>
+                            <button
+                                onClick={runAutoReframe}
+                                disabled={processingState !== ProcessingState.IDLE || reframeProgress !== null}
+                                className="w-full py-1.5 bg-gray-900 hover:bg-gray-800 border border-gray-600 text-gray-200 rounded-lg text-xs font-medium transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+                            >
+                                {reframeProgress !== null ? (
+                                    <><Loader2 className="w-3 h-3 animate-spin" /> {t.analysing} {Math.round(reframeProgress)}%</>
+                                ) : (
+                                    <><ScanFace className="w-3 h-3" /> {t.autoReframe}</>
+                                )}
+                            </button>
+                            {config.focalPath.length > 0 && (
+                                <div className="flex flex-wrap gap-1">
+                                    {config.focalPath.map((keyframe) => (
+                                        <span key={keyframe.time} className="flex items-center gap-1 bg-gray-900 border border-gray-600 rounded px-1.5 py-0.5 text-xs font-mono text-gray-300">
+                                            <button onClick={() => handleSeek(keyframe.time)} className="hover:text-white">
+                                                {keyframe.time.toFixed(1)}s
+                                            </button>
+                                            <button
+                                                onClick={() => removeKeyframe(keyframe.time)}
+                                                disabled={processingState !== ProcessingState.IDLE}
+                                                className="text-gray-500 hover:text-red-400 disabled:opacity-30"
+                                            >
+                                                <X className="w-3 h-3" />
+                                            </button>
+                                        </span>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    {/* Output Format Selector */}
+                    <div>
+                        <label className="text-xs text-gray-400 mb-2 block flex items-center gap-2">
+                            <FileVideo className="w-3 h-3" /> {t.outputFormat}
+                        </label>
+                        <div className="flex gap-2">
+                            {Object.values(OutputFormat).map((format) => (
+                                <button
+                                    key={format}
+                                    onClick={() => onConfigChange({ ...config, outputFormat: format })}
+                                    disabled={processingState !== ProcessingState.IDLE}
+                                    className={`flex-1 py-1.5 px-2 rounded-lg text-xs font-medium border transition-all ${
+                                        config.outputFormat === format
+                                        ? 'bg-blue-600 border-blue-500 text-white'
+                                        : 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600 disabled:opacity-50'
+                                    }`}
+                                >
+                                    {t.formats[format as keyof typeof t.formats]}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    {/* Multi-target Export */}
+                    <div>
+                        <label className="text-xs text-gray-400 mb-2 block flex items-center gap-2">
+                            <Layers className="w-3 h-3" /> {t.exportTargets}
+                        </label>
+                        <div className="grid grid-cols-3 gap-2">
+                            {Object.keys(RESOLUTIONS).map((ratio) => {
+                                const selected = exportTargets.some(target => target.overrides.aspectRatio === ratio);
+                                return (
+                                    <button
+                                        key={ratio}
+                                        onClick={() => toggleExportTarget(ratio as AspectRatio)}
+                                        disabled={processingState !== ProcessingState.IDLE}
+                                        className={`py-1.5 px-2 rounded-lg text-xs font-medium border transition-all ${
+                                            selected
+                                            ? 'bg-emerald-600 border-emerald-500 text-white'
+                                            : 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600 disabled:opacity-50'
+                                        }`}
+                                    >
+                                        {t.ratios[ratio as keyof typeof t.ratios]}
+                                    </button>
+                                );
+                            })}
+                        </div>
+
+                        <div className="flex gap-2 mt-2">
+                            <input 
+                                type="number" 
+                                value={customTargetSize.width}
+                                disabled={processingState !== ProcessingState.IDLE}
+                                onChange={(e) => setCustomTargetSize({ ...customTargetSize, width: Number(e.target.value) })}
+                                className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1.5 text-xs focus:border-blue-500 focus:outline-none transition-colors"
+                                placeholder="W"
+                            />
+                            <input 
+                                type="number" 
+                                value={customTargetSize.height}
+                                disabled={processingState !== ProcessingState.IDLE}
+                                onChange={(e) => setCustomTargetSize({ ...customTargetSize, height: Number(e.target.value) })}
+                                className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1.5 text-xs focus:border-blue-500 focus:outline-none transition-colors"
+                                placeholder="H"
+                            />
+                            <button
+                                onClick={addCustomExportTarget}
+                                disabled={processingState !== ProcessingState.IDLE}
+                                className="px-2 bg-gray-700 hover:bg-gray-600 border border-gray-600 rounded text-gray-300 disabled:opacity-50"
+                                title={t.addCustomTarget}
+                            >
+                                <Plus className="w-4 h-4" />
+                            </button>
+                        </div>
+
+                        {exportTargets.length > 0 && (
+                            <div className="mt-2 space-y-1">
+                                {exportTargets.map((target) => (
+                                    <div key={target.id} className="flex items-center gap-2 bg-gray-700/50 p-1.5 rounded-lg border border-gray-600">
+                                        <span className="text-xs text-white font-mono flex-1">
+                                            {getTargetLabel(resolveTargetConfig(config, target))}
+                                        </span>
+                                        <select
+                                            value={target.overrides.scaleMode || ''}
+                                            disabled={processingState !== ProcessingState.IDLE}
+                                            onChange={(e) => updateExportTarget(target.id, { scaleMode: (e.target.value || undefined) as ScaleMode | undefined })}
+                                            className="bg-gray-900 border border-gray-600 rounded px-1 py-0.5 text-xs text-gray-300 focus:outline-none"
+                                        >
+                                            <option value="">{t.sameAsEditor}</option>
+                                            {Object.values(ScaleMode).map((mode) => (
+                                                <option key={mode} value={mode}>{t.modes[mode as keyof typeof t.modes]}</option>
+                                            ))}
+                                        </select>
+                                        <button
+                                            onClick={() => setExportTargets(exportTargets.filter(item => item.id !== target.id))}
+                                            disabled={processingState !== ProcessingState.IDLE}
+                                            className="text-gray-400 hover:text-red-400 disabled:opacity-30"
+                                        >
+                                            <X className="w-3 h-3" />
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
                     {/* Background Settings - Only visible if ScaleMode is CONTAIN */}
                     {config.scaleMode === ScaleMode.CONTAIN && (
                         <div className="border-t border-gray-700 pt-4 mt-4 animate-in fade-in slide-in-from-top-2">
@@ -621,38 +1102,133 @@ const VideoEditor: React.FC<VideoEditorProps> = ({ file, config, onConfigChange,
                                 <Palette className="w-3 h-3" /> {t.background}
                             </label>
                             
-                            <div className="flex bg-gray-900 rounded-lg p-1 mb-3">
-                                 <button 
-                                     onClick={() => onConfigChange({...config, useAIBackground: false})}
-                                     disabled={isProcessing}
-                                     className={`flex-1 flex items-center justify-center gap-2 py-1.5 rounded-md text-xs transition-all ${!config.useAIBackground ? 'bg-gray-700 text-white shadow-sm' : 'text-gray-400 hover:text-gray-300'}`}
-                                 >
-                                     <div className="w-3 h-3 rounded-full bg-current"></div>
-                                     {t.color}
-                                 </button>
-                                 <button 
-                                     onClick={() => onConfigChange({...config, useAIBackground: true})}
-                                     disabled={isProcessing}
-                                     className={`flex-1 flex items-center justify-center gap-2 py-1.5 rounded-md text-xs transition-all ${config.useAIBackground ? 'bg-indigo-600 text-white shadow-sm' : 'text-gray-400 hover:text-gray-300'}`}
-                                 >
-                                     <Sparkles className="w-3 h-3" />
-                                     {t.aiBackground}
-                                 </button>
+                            <div className="grid grid-cols-3 gap-1 bg-gray-900 rounded-lg p-1 mb-3">
+                                 {([
+                                     { type: BackgroundType.COLOR, label: t.color, icon: <div className="w-3 h-3 rounded-full bg-current"></div> },
+                                     { type: BackgroundType.GRADIENT, label: t.gradient, icon: <Blend className="w-3 h-3" /> },
+                                     { type: BackgroundType.IMAGE, label: t.image, icon: <ImageIcon className="w-3 h-3" /> },
+                                     { type: BackgroundType.VIDEO, label: t.video, icon: <Film className="w-3 h-3" /> },
+                                     { type: BackgroundType.BLURRED_VIDEO, label: t.blurredVideo, icon: <Droplets className="w-3 h-3" /> },
+                                     { type: BackgroundType.AI, label: t.aiBackground, icon: <Sparkles className="w-3 h-3" /> },
+                                     { type: BackgroundType.EXTENDED_SCENE, label: t.extendScene, icon: <Expand className="w-3 h-3" /> },
+                                 ]).map(({ type, label, icon }) => (
+                                     <button 
+                                         key={type}
+                                         onClick={() => setBackgroundType(type)}
+                                         disabled={isProcessing}
+                                         className={`flex items-center justify-center gap-2 py-1.5 rounded-md text-xs transition-all ${config.backgroundType === type ? (type === BackgroundType.AI || type === BackgroundType.EXTENDED_SCENE ? 'bg-indigo-600' : 'bg-gray-700') + ' text-white shadow-sm' : 'text-gray-400 hover:text-gray-300'}`}
+                                     >
+                                         {icon}
+                                         {label}
+                                     </button>
+                                 ))}
                             </div>
 
-                            {!config.useAIBackground ? (
-                                <div className="flex items-center gap-3 bg-gray-700/50 p-2 rounded-lg border border-gray-600">
-                                    <input 
-                                        type="color" 
-                                        value={config.backgroundColor}
+                            {config.backgroundType === BackgroundType.COLOR ? (
+                                <div className="space-y-2 bg-gray-700/50 p-2 rounded-lg border border-gray-600">
+                                    <div className={`flex items-center gap-3 ${config.autoBackgroundColor ? 'opacity-40' : ''}`}>
+                                        <input 
+                                            type="color" 
+                                            value={config.backgroundColor}
+                                            disabled={isProcessing || config.autoBackgroundColor}
+                                            onChange={(e) => onConfigChange({...config, backgroundColor: e.target.value})}
+                                            className="w-8 h-8 rounded cursor-pointer bg-transparent border-0 p-0"
+                                        />
+                                        <span className="text-xs text-gray-300 font-mono uppercase">{config.backgroundColor}</span>
+                                    </div>
+                                    <PaletteSwatches
+                                        colors={palette}
+                                        selected={config.autoBackgroundColor ? null : config.backgroundColor}
+                                        onPick={(color) => onConfigChange({...config, backgroundColor: color, autoBackgroundColor: false})}
                                         disabled={isProcessing}
-                                        onChange={(e) => onConfigChange({...config, backgroundColor: e.target.value})}
-                                        className="w-8 h-8 rounded cursor-pointer bg-transparent border-0 p-0"
+                                        t={t}
                                     />
-                                    <span className="text-xs text-gray-300 font-mono uppercase">{config.backgroundColor}</span>
+                                    <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={config.autoBackgroundColor}
+                                            disabled={isProcessing}
+                                            onChange={(e) => onConfigChange({...config, autoBackgroundColor: e.target.checked})}
+                                            className="accent-blue-500"
+                                        />
+                                        {t.autoBackgroundColor}
+                                    </label>
+                                </div>
+                            ) : config.backgroundType === BackgroundType.GRADIENT ? (
+                                <GradientEditor
+                                    config={config}
+                                    onConfigChange={onConfigChange}
+                                    disabled={isProcessing}
+                                    suggestions={getPaletteGradients(palette)}
+                                    t={t}
+                                />
+                            ) : config.backgroundType === BackgroundType.IMAGE || config.backgroundType === BackgroundType.VIDEO ? (
+                                <BackgroundMediaPicker
+                                    config={config}
+                                    onConfigChange={onConfigChange}
+                                    disabled={isProcessing}
+                                    isLoading={isLoadingBackground}
+                                    error={backgroundError}
+                                    t={t}
+                                />
+                            ) : config.backgroundType === BackgroundType.EXTENDED_SCENE ? (
+                                <div className="space-y-2">
+                                    <BackgroundProviderPicker
+                                        settings={providerSettings}
+                                        onChange={changeProviderSettings}
+                                        disabled={isProcessing}
+                                        t={t}
+                                    />
+                                    <SceneExtensionPanel
+                                        plate={scenePlate}
+                                        aspectRatio={generationAspectRatio}
+                                        currentTime={currentTime}
+                                        formatTime={formatTime}
+                                        onExtend={extendSceneFromFrame}
+                                        onShowFrame={handleSeek}
+                                        disabled={isProcessing}
+                                        t={t}
+                                    />
+                                </div>
+                            ) : config.backgroundType === BackgroundType.BLURRED_VIDEO ? (
+                                <div className="space-y-2 bg-gray-700/50 p-2 rounded-lg border border-gray-600">
+                                    {([
+                                        { key: 'backgroundBlur', label: t.blurRadius, min: 0, max: 100, step: 1, format: (v: number) => `${v}px` },
+                                        { key: 'backgroundDim', label: t.dimAmount, min: 0, max: 0.9, step: 0.05, format: (v: number) => `${Math.round(v * 100)}%` },
+                                        { key: 'backgroundZoom', label: t.zoom, min: 1, max: 2, step: 0.05, format: (v: number) => `${v.toFixed(2)}x` },
+                                    ] as const).map(({ key, label, min, max, step, format }) => (
+                                        <label key={key} className="flex items-center gap-2 text-xs text-gray-400">
+                                            <span className="w-16">{label}</span>
+                                            <input 
+                                                type="range" 
+                                                min={min} 
+                                                max={max} 
+                                                step={step} 
+                                                disabled={isProcessing}
+                                                value={config[key]} 
+                                                onChange={(e) => onConfigChange({...config, [key]: parseFloat(e.target.value)})}
+                                                className="flex-1 h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500 disabled:opacity-30"
+                                            />
+                                            <span className="w-10 text-right font-mono text-gray-300">{format(config[key])}</span>
+                                        </label>
+                                    ))}
                                 </div>
                             ) : (
                                 <div className="space-y-2">
+                                    <BackgroundProviderPicker
+                                        settings={providerSettings}
+                                        onChange={changeProviderSettings}
+                                        disabled={isProcessing}
+                                        t={t}
+                                    />
+                                    <PromptSuggestions
+                                        suggestions={promptSuggestions}
+                                        isLoading={isSuggesting}
+                                        onSuggest={suggestPrompts}
+                                        onPick={pickSuggestion}
+                                        disabled={isProcessing}
+                                        t={t}
+                                    />
                                     <textarea 
                                         value={config.aiPrompt}
                                         onChange={(e) => onConfigChange({...config, aiPrompt: e.target.value})}
@@ -660,19 +1236,80 @@ const VideoEditor: React.FC<VideoEditorProps> = ({ file, config, onConfigChange,
                                         disabled={isProcessing}
                                         className="w-full bg-gray-900 border border-gray-600 rounded-lg p-2 text-xs text-white focus:border-indigo-500 focus:outline-none resize-none h-16"
                                     />
-                                    <button
-                                        onClick={generateAIBackground}
-                                        disabled={isProcessing || !config.aiPrompt}
-                                        className="w-full py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-xs font-medium transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
-                                    >
-                                        <Sparkles className="w-3 h-3" />
-                                        {t.generate}
-                                    </button>
+                                    <div className="flex gap-2">
+                                        <select
+                                            value={variationCount}
+                                            onChange={(e) => setVariationCount(Number(e.target.value))}
+                                            disabled={isProcessing}
+                                            className="bg-gray-900 border border-gray-600 rounded-lg px-2 text-xs text-white focus:outline-none focus:border-indigo-500"
+                                            title={t.variations}
+                                        >
+                                            {[1, 2, 3, 4].map(count => <option key={count} value={count}>{count}×</option>)}
+                                        </select>
+                                        <button
+                                            onClick={() => generateAIBackground()}
+                                            disabled={isProcessing || !config.aiPrompt}
+                                            className="flex-1 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-xs font-medium transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+                                        >
+                                            <Sparkles className="w-3 h-3" />
+                                            {t.generate} ({generationAspectRatio})
+                                        </button>
+                                    </div>
+                                    <BackgroundGallery
+                                        entries={backgroundHistory}
+                                        selectedId={selectedBackgroundId}
+                                        aspectRatio={generationAspectRatio}
+                                        onSelect={selectAIBackground}
+                                        onReusePrompt={(entry) => onConfigChange({...config, aiPrompt: entry.prompt})}
+                                        onDelete={deleteAIBackground}
+                                        disabled={isProcessing}
+                                        t={t}
+                                    />
                                 </div>
                             )}
                         </div>
                     )}
 
+                    {/* Color Adjustments & LUT */}
+                    <ColorSettings
+                        config={config}
+                        onConfigChange={onConfigChange}
+                        disabled={processingState !== ProcessingState.IDLE}
+                        t={t}
+                    />
+
+                    {/* Logo & Text Layers */}
+                    <OverlayLayers
+                        config={config}
+                        onConfigChange={onConfigChange}
+                        disabled={processingState !== ProcessingState.IDLE}
+                        t={t}
+                    />
+
+                    {/* Burned-in Subtitles */}
+                    <SubtitleSettings
+                        config={config}
+                        onConfigChange={onConfigChange}
+                        disabled={processingState !== ProcessingState.IDLE}
+                        t={t}
+                    />
+
+                    {/* Frame Rate, Quality, Codec & Scale */}
+                    <ExportSettings
+                        config={config}
+                        onConfigChange={onConfigChange}
+                        disabled={processingState !== ProcessingState.IDLE}
+                        t={t}
+                    />
+
+                    {/* Audio Mix */}
+                    <AudioMixer
+                        config={config}
+                        onConfigChange={onConfigChange}
+                        disabled={processingState !== ProcessingState.IDLE}
+                        t={t}
+                    />
+
                     <div className="flex justify-between text-xs text-gray-500 border-t border-gray-700 pt-3">
                          <span>{t.output}:</span>
                          <span className="text-white font-mono">{currentDim.width}x{currentDim.height}</span>
@@ -682,13 +1319,17 @@ const VideoEditor: React.FC<VideoEditorProps> = ({ file, config, onConfigChange,
             
             {/* Playback Controls (Media Player Style) */}
             <div className="bg-gray-800 p-4 rounded-xl border border-gray-700 shadow-md">
-                {/* Progress Bar */}
-                <div className="w-full bg-gray-700 h-1.5 rounded-full mb-4 overflow-hidden relative cursor-pointer group">
-                    <div 
-                        className="bg-blue-500 h-full absolute top-0 left-0 transition-all duration-100 ease-linear"
-                        style={{ width: `${(currentTime / (videoDuration || 1)) * 100}%` }}
-                    />
-                </div>
+                {/* Progress Bar & Trim Range */}
+                <TrimBar
+                    duration={videoDuration}
+                    currentTime={currentTime}
+                    trimStart={trimStart}
+                    trimEnd={trimEnd}
+                    disabled={processingState !== ProcessingState.IDLE}
+                    onSeek={handleSeek}
+                    onTrimChange={handleTrimChange}
+                    t={t}
+                />
 
                 <div className="flex items-center justify-between">
                     <div className="text-xs font-mono text-gray-400 w-16">
@@ -750,20 +1391,55 @@ const VideoEditor: React.FC<VideoEditorProps> = ({ file, config, onConfigChange,
                 </div>
              )}
 
+             {videoDuration > 0 && limitWarnings.length > 0 && (
+                <div className="bg-yellow-900/40 border border-yellow-500/50 text-yellow-200 p-3 rounded-lg text-xs space-y-1">
+                    {limitWarnings.map((warning) => (
+                        <p key={warning.kind} className="flex items-start gap-2">
+                            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                            {warning.kind === 'duration'
+                                ? `${t.limitDuration} (${formatTime(warning.actual)} / ${formatTime(warning.limit)})`
+                                : `${t.limitFileSize} (${(warning.actual / 1048576).toFixed(0)} MB / ${(warning.limit / 1048576).toFixed(0)} MB)`}
+                        </p>
+                    ))}
+                </div>
+             )}
+
              {/* Main Action Button */}
-             {processingState === ProcessingState.COMPLETED && downloadUrl ? (
+             {processingState === ProcessingState.COMPLETED && results.length === 1 ? (
                 <a 
-                    href={downloadUrl}
-                    download={`resized-video-pro.${fileExtension}`}
+                    href={results[0].url}
+                    download={results[0].fileName}
                     className="flex-1 flex items-center justify-center gap-2 bg-green-600 hover:bg-green-500 text-white font-bold py-4 rounded-xl shadow-lg shadow-green-900/20 transition-all transform hover:scale-[1.02]"
                 >
                     <Download className="w-5 h-5" />
                     {t.downloadVideo}
                 </a>
+             ) : processingState === ProcessingState.COMPLETED && results.length > 1 ? (
+                <div className="bg-gray-800 p-4 rounded-xl border border-gray-700 space-y-2">
+                    {results.map((result) => (
+                        <a
+                            key={result.fileName}
+                            href={result.url}
+                            download={result.fileName}
+                            className="flex items-center justify-between gap-2 bg-gray-700 hover:bg-gray-600 text-gray-200 px-3 py-2 rounded-lg text-xs transition-colors"
+                        >
+                            <span className="font-mono truncate">{result.fileName}</span>
+                            <Download className="w-4 h-4 flex-shrink-0" />
+                        </a>
+                    ))}
+                    <button
+                        onClick={downloadZip}
+                        disabled={isZipping}
+                        className="w-full flex items-center justify-center gap-2 bg-green-600 hover:bg-green-500 text-white font-bold py-3 rounded-xl shadow-lg shadow-green-900/20 transition-all disabled:opacity-50"
+                    >
+                        {isZipping ? <Loader2 className="w-5 h-5 animate-spin" /> : <Archive className="w-5 h-5" />}
+                        {t.downloadAllZip}
+                    </button>
+                </div>
              ) : (
                 <button 
                     onClick={startProcessing}
-                    disabled={processingState !== ProcessingState.IDLE}
+                    disabled={processingState !== ProcessingState.IDLE || reframeProgress !== null || isLoadingBackground}
                     className="flex-1 flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-500 text-white font-bold py-4 rounded-xl shadow-lg shadow-blue-900/20 disabled:opacity-50 disabled:cursor-not-allowed transition-all transform active:scale-95"
                 >
                     {processingState === ProcessingState.IDLE ? (
@@ -780,7 +1456,7 @@ const VideoEditor: React.FC<VideoEditorProps> = ({ file, config, onConfigChange,
             {processingState === ProcessingState.COMPLETED && (
                 <button 
                     onClick={() => {
-                        setDownloadUrl(null);
+                        setResults([]);
                         setProcessingState(ProcessingState.IDLE);
                         setProgress(0);
                         // Seek back to middle for preview
@@ -0,0 +1,134 @@
+import { AudioSettings } from "../types";
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  originalGain: 1,
+  muteOriginal: false,
+  music: null,
+  musicGain: 0.5,
+  ducking: true,
+  fadeIn: 0,
+  fadeOut: 0,
+};
+
+// Mixes are rendered at 48kHz stereo, the rate Opus expects
+export const AUDIO_SAMPLE_RATE = 48000;
+
+// Ducking: the original is analysed in windows of this length (seconds)
+const DUCK_WINDOW = 0.05;
+// RMS above which the original counts as "talking" (~ -34 dBFS)
+const DUCK_THRESHOLD = 0.02;
+// Music gain multiplier while ducked
+const DUCK_LEVEL = 0.25;
+// Keep ducking this long after the original goes quiet, to avoid pumping between words
+const DUCK_HOLD = 0.3;
+const DUCK_ATTACK = 0.05;
+const DUCK_RELEASE = 0.3;
+
+/**
+ * Decodes a whole file's audio, which means holding the file and its decoded samples in memory
+ * at once (about 23 MB per minute of 48kHz stereo). Fine for music tracks; sources go through
+ * decodeAudioRange where they can and only fall back to this.
+ */
+export const decodeAudioFile = async (file: Blob): Promise<AudioBuffer | null> => {
+  try {
+    // Decoding through an OfflineAudioContext resamples to the mix rate
+    const ctx = new OfflineAudioContext(2, 1, AUDIO_SAMPLE_RATE);
+    return await ctx.decodeAudioData(await file.arrayBuffer());
+  } catch (e) {
+    console.warn("No decodable audio track:", e);
+    return null;
+  }
+};
+
+// Windows (relative to `start`) where the original is loud enough to duck under
+const findLoudRanges = (original: AudioBuffer, start: number, end: number): [number, number][] => {
+  const windowFrames = Math.round(DUCK_WINDOW * original.sampleRate);
+  const channels = Array.from({ length: original.numberOfChannels }, (_, c) => original.getChannelData(c));
+  const from = Math.floor(start * original.sampleRate);
+  const to = Math.min(original.length, Math.ceil(end * original.sampleRate));
+  const ranges: [number, number][] = [];
+
+  for (let offset = from; offset < to; offset += windowFrames) {
+    let sum = 0;
+    const frames = Math.min(windowFrames, to - offset);
+    for (const data of channels) {
+      for (let i = offset; i < offset + frames; i++) sum += data[i] * data[i];
+    }
+    if (Math.sqrt(sum / (frames * channels.length)) < DUCK_THRESHOLD) continue;
+
+    const time = (offset - from) / original.sampleRate;
+    const last = ranges[ranges.length - 1];
+    if (last && time - last[1] <= DUCK_HOLD) {
+      last[1] = time + DUCK_WINDOW;
+    } else {
+      ranges.push([time, time + DUCK_WINDOW]);
+    }
+  }
+  return ranges;
+};
+
+export interface AudioMixOptions {
+  original: AudioBuffer | null;
+  // Source time, in seconds, of the original buffer's first sample; 0 when it holds the whole track
+  originalStart?: number;
+  music: AudioBuffer | null;
+  settings: AudioSettings;
+  // Source range in seconds; the mix starts at 0 = `start`
+  start: number;
+  end: number;
+}
+
+/**
+ * Renders the export's audio through an offline Web Audio graph: original track gain/mute,
+ * looping music with optional ducking, and fades over the whole range. Returns null when
+ * there is nothing to hear.
+ */
+export const renderAudioMix = async ({ original, originalStart = 0, music, settings, start, end }: AudioMixOptions): Promise<AudioBuffer | null> => {
+  const useOriginal = original !== null && !settings.muteOriginal;
+  if (!useOriginal && !music) return null;
+
+  const duration = Math.max(0, end - start);
+  const ctx = new OfflineAudioContext(2, Math.max(1, Math.ceil(duration * AUDIO_SAMPLE_RATE)), AUDIO_SAMPLE_RATE);
+
+  const master = ctx.createGain();
+  master.connect(ctx.destination);
+
+  // Fades can't overlap; split the range if they would
+  const fadeIn = Math.min(settings.fadeIn, duration / 2);
+  const fadeOut = Math.min(settings.fadeOut, duration / 2);
+  master.gain.setValueAtTime(fadeIn > 0 ? 0 : 1, 0);
+  if (fadeIn > 0) master.gain.linearRampToValueAtTime(1, fadeIn);
+  if (fadeOut > 0) {
+    master.gain.setValueAtTime(1, duration - fadeOut);
+    master.gain.linearRampToValueAtTime(0, duration);
+  }
+
+  if (useOriginal) {
+    const source = ctx.createBufferSource();
+    source.buffer = original;
+    const gain = ctx.createGain();
+    gain.gain.value = settings.originalGain;
+    source.connect(gain).connect(master);
+    source.start(0, Math.max(0, start - originalStart));
+  }
+
+  if (music) {
+    const source = ctx.createBufferSource();
+    source.buffer = music;
+    source.loop = true;
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(settings.musicGain, 0);
+
+    if (settings.ducking && useOriginal && original) {
+      for (const [from, to] of findLoudRanges(original, Math.max(0, start - originalStart), end - originalStart)) {
+        gain.gain.setTargetAtTime(settings.musicGain * DUCK_LEVEL, from, DUCK_ATTACK / 3);
+        gain.gain.setTargetAtTime(settings.musicGain, to, DUCK_RELEASE / 3);
+      }
+    }
+
+    source.connect(gain).connect(master);
+    source.start(0);
+  }
+
+  return ctx.startRendering();
+};
@@ -0,0 +1,92 @@
+import { Dimensions, FocalKeyframe, Rect } from "../types";
+import { getDuration, loadVideo, seekTo } from "./frameSampling";
+import { getSourceRect } from "./layout";
+
+export type ReframeWorkerRequest =
+  | { type: "frame"; time: number; width: number; height: number; data: ArrayBuffer }
+  | { type: "finish"; halfX: number; halfY: number };
+
+export type ReframeWorkerResponse =
+  | { type: "result"; keyframes: FocalKeyframe[] }
+  | { type: "error"; message: string };
+
+export interface AutoReframeOptions {
+  file: File;
+  // Output size the subject has to stay inside of
+  outputSize: Dimensions;
+  // Only this part of the source is analysed, so the path is relative to it like the layout's
+  sourceCrop?: Rect | null;
+  start?: number;
+  end?: number;
+  onProgress?: (percent: number) => void;
+}
+
+// Frames are analysed this small; plenty for faces and motion
+const ANALYSIS_WIDTH = 160;
+const SAMPLES_PER_SECOND = 4;
+
+/**
+ * Finds the main subject over time and returns a Cover focal path that keeps it in frame.
+ * Sampling happens here; all analysis runs locally in a worker.
+ */
+export const analyseSubjectPath = async ({
+  file,
+  outputSize,
+  sourceCrop = null,
+  start = 0,
+  end,
+  onProgress,
+}: AutoReframeOptions): Promise<FocalKeyframe[]> => {
+  const video = await loadVideo(file);
+  const worker = new Worker(new URL("./reframe.worker.ts", import.meta.url), { type: "module" });
+
+  try {
+    const duration = await getDuration(video);
+    const rangeEnd = Math.min(end ?? duration, duration);
+    const crop = getSourceRect({ width: video.videoWidth, height: video.videoHeight }, sourceCrop);
+    const width = ANALYSIS_WIDTH;
+    const height = Math.max(1, Math.round((crop.height / crop.width) * ANALYSIS_WIDTH));
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext("2d", { willReadFrequently: true });
+    if (!ctx) throw new Error("Could not create analysis canvas.");
+
+    let failed = false;
+    const result = new Promise<FocalKeyframe[]>((resolve, reject) => {
+      worker.onmessage = (event: MessageEvent<ReframeWorkerResponse>) => {
+        const response = event.data;
+        if (response.type === "error") reject(new Error(`Subject analysis failed: ${response.message}`));
+        else resolve(response.keyframes);
+      };
+      worker.onerror = () => reject(new Error("Subject analysis failed."));
+    });
+    // Stop sampling as soon as the worker gives up; the error itself comes from awaiting the result
+    result.catch(() => { failed = true; });
+
+    const step = 1 / SAMPLES_PER_SECOND;
+    for (let time = start; time < rangeEnd && !failed; time += step) {
+      await seekTo(video, time);
+      ctx.drawImage(video, crop.x, crop.y, crop.width, crop.height, 0, 0, width, height);
+      const { data } = ctx.getImageData(0, 0, width, height);
+
+      const message: ReframeWorkerRequest = { type: "frame", time, width, height, data: data.buffer };
+      worker.postMessage(message, [data.buffer]);
+      onProgress?.(Math.min(100, ((time - start) / (rangeEnd - start)) * 100));
+    }
+
+    // Half the crop window in normalised source units, so the path stays reachable
+    const scale = Math.max(outputSize.width / crop.width, outputSize.height / crop.height);
+    const finish: ReframeWorkerRequest = {
+      type: "finish",
+      halfX: outputSize.width / (2 * crop.width * scale),
+      halfY: outputSize.height / (2 * crop.height * scale),
+    };
+    if (!failed) worker.postMessage(finish);
+
+    return await result;
+  } finally {
+    worker.terminate();
+    URL.revokeObjectURL(video.src);
+  }
+};
@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { BACKGROUND_PROVIDERS, generateBackgroundImage, getGenerationAspectRatio, suggestBackgroundPrompts } from "./backgroundGenerator";
+import { BackgroundProviderError, BackgroundProviderSettings, EmptyResponseError, QuotaExceededError } from "./backgroundProvider";
+
+const LOCAL: BackgroundProviderSettings = { provider: "local", localEndpoint: "http://localhost:7860/sdapi/v1/txt2img" };
+
+const respond = (status: number, body: unknown) =>
+  vi.stubGlobal("fetch", vi.fn(async () => new Response(JSON.stringify(body), { status })));
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("getGenerationAspectRatio", () => {
+  it("keeps supported ratios", () => {
+    expect(getGenerationAspectRatio({ width: 1080, height: 1920 })).toBe("9:16");
+    expect(getGenerationAspectRatio({ width: 1080, height: 1350 })).toBe("4:5");
+  });
+
+  it("picks the nearest supported ratio for custom sizes", () => {
+    expect(getGenerationAspectRatio({ width: 2560, height: 1080 })).toBe("21:9");
+    expect(getGenerationAspectRatio({ width: 1000, height: 1010 })).toBe("1:1");
+  });
+});
+
+describe("local provider", () => {
+  it("sends the prompt at a size matching the ratio", async () => {
+    respond(200, { images: ["aGVsbG8="] });
+    await generateBackgroundImage(LOCAL, "misty forest", "9:16", 2);
+
+    const [url, init] = vi.mocked(fetch).mock.calls[0];
+    expect(url).toBe(LOCAL.localEndpoint);
+    expect(JSON.parse(init!.body as string)).toEqual({ prompt: "misty forest", width: 576, height: 1024, batch_size: 2, n_iter: 1 });
+  });
+
+  it("returns data URLs", async () => {
+    respond(200, { images: ["aGVsbG8=", "data:image/jpeg;base64,d29ybGQ="] });
+    expect(await generateBackgroundImage(LOCAL, "sky", "1:1", 2))
+      .toEqual(["data:image/png;base64,aGVsbG8=", "data:image/jpeg;base64,d29ybGQ="]);
+  });
+
+  it("reports rate limiting as a quota error", async () => {
+    respond(429, {});
+    await expect(generateBackgroundImage(LOCAL, "sky", "1:1")).rejects.toBeInstanceOf(QuotaExceededError);
+  });
+
+  it("reports a response without images as empty", async () => {
+    respond(200, { images: [] });
+    await expect(generateBackgroundImage(LOCAL, "sky", "1:1")).rejects.toBeInstanceOf(EmptyResponseError);
+  });
+
+  it("reports an unreachable server as a provider error", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => { throw new TypeError("Failed to fetch"); }));
+    await expect(generateBackgroundImage(LOCAL, "sky", "1:1")).rejects.toBeInstanceOf(BackgroundProviderError);
+  });
+});
+
+describe("gemini provider", () => {
+  it("reports a missing API key", async () => {
+    vi.stubEnv("API_KEY", "");
+    await expect(generateBackgroundImage({ ...LOCAL, provider: "gemini" }, "sky", "1:1"))
+      .rejects.toHaveProperty("name", "MissingApiKeyError");
+    vi.unstubAllEnvs();
+  });
+});
+
+describe("suggestBackgroundPrompts", () => {
+  const GEMINI: BackgroundProviderSettings = { ...LOCAL, provider: "gemini" };
+
+  it("cleans list markers and quotes and drops duplicates", async () => {
+    vi.spyOn(BACKGROUND_PROVIDERS.gemini, "suggestPrompts").mockResolvedValueOnce([
+      "1. \"Misty teal forest.\"",
+      "- misty teal forest",
+      "  Warm amber bokeh  ",
+      "",
+    ]);
+    expect(await suggestBackgroundPrompts(GEMINI, [])).toEqual(["Misty teal forest", "Warm amber bokeh"]);
+  });
+
+  it("keeps at most five", async () => {
+    vi.spyOn(BACKGROUND_PROVIDERS.gemini, "suggestPrompts").mockResolvedValueOnce(["a", "b", "c", "d", "e", "f"]);
+    expect(await suggestBackgroundPrompts(GEMINI, [])).toHaveLength(5);
+  });
+
+  it("reports no usable suggestions as empty", async () => {
+    vi.spyOn(BACKGROUND_PROVIDERS.gemini, "suggestPrompts").mockResolvedValueOnce(["  ", "\"\""]);
+    await expect(suggestBackgroundPrompts(GEMINI, [])).rejects.toBeInstanceOf(EmptyResponseError);
+  });
+});
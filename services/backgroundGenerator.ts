@@ -0,0 +1,87 @@
+import { Dimensions } from "../types";
+import { BackgroundProvider, BackgroundProviderId, BackgroundProviderSettings, EmptyResponseError } from "./backgroundProvider";
+import { geminiProvider } from "./geminiService";
+import { DEFAULT_LOCAL_ENDPOINT, localImageProvider } from "./localImageProvider";
+import { mockBackgroundProvider } from "./mockBackgroundProvider";
+
+export const BACKGROUND_PROVIDERS: Record<BackgroundProviderId, BackgroundProvider> = {
+  gemini: geminiProvider,
+  local: localImageProvider,
+  mock: mockBackgroundProvider,
+};
+
+// Aspect ratios backgrounds are generated at; the ones the Gemini image model accepts
+const GENERATION_ASPECT_RATIOS = ["1:1", "2:3", "3:2", "3:4", "4:3", "4:5", "5:4", "9:16", "16:9", "21:9"];
+
+const STORAGE_KEY = "resized-video-pro.backgroundProvider";
+
+export const DEFAULT_PROVIDER_SETTINGS: BackgroundProviderSettings = {
+  // Without a key, start on the offline generator rather than an error
+  provider: process.env.API_KEY ? "gemini" : "mock",
+  localEndpoint: DEFAULT_LOCAL_ENDPOINT,
+};
+
+export const loadProviderSettings = (): BackgroundProviderSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    const settings = { ...DEFAULT_PROVIDER_SETTINGS, ...stored };
+    return settings.provider in BACKGROUND_PROVIDERS ? settings : DEFAULT_PROVIDER_SETTINGS;
+  } catch (e) {
+    console.warn("Ignoring unreadable background provider settings:", e);
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+};
+
+export const saveProviderSettings = (settings: BackgroundProviderSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+/**
+ * The generation aspect ratio closest to `size`, so backgrounds need as little cropping as possible.
+ */
+export const getGenerationAspectRatio = ({ width, height }: Dimensions): string => {
+  const target = Math.log(width / height);
+  const distance = (ratio: string) => {
+    const [w, h] = ratio.split(":").map(Number);
+    return Math.abs(Math.log(w / h) - target);
+  };
+  return GENERATION_ASPECT_RATIOS.reduce((best, ratio) => distance(ratio) < distance(best) ? ratio : best);
+};
+
+/**
+ * Generates `count` variations with the provider chosen in `settings`, as data URLs.
+ * Failures are BackgroundProviderErrors where the provider can tell what went wrong.
+ */
+export const generateBackgroundImage = async (
+  settings: BackgroundProviderSettings,
+  prompt: string,
+  aspectRatio: string,
+  count = 1
+): Promise<string[]> => {
+  const images = await BACKGROUND_PROVIDERS[settings.provider].generate({ prompt, aspectRatio, count }, settings);
+  if (images.length === 0) throw new EmptyResponseError();
+  return images.slice(0, count);
+};
+
+/**
+ * Outpaints `frame` to `aspectRatio` with the provider chosen in `settings`, for the
+ * Extended Scene background. Returns a data URL.
+ */
+export const extendScene = (settings: BackgroundProviderSettings, frame: Blob, aspectRatio: string): Promise<string> =>
+  BACKGROUND_PROVIDERS[settings.provider].outpaint({ frame, aspectRatio }, settings);
+
+const MAX_SUGGESTIONS = 5;
+
+/**
+ * Asks the provider chosen in `settings` for up to five background prompts suiting `frames`,
+ * cleaned of list markers and quotes, without duplicates.
+ */
+export const suggestBackgroundPrompts = async (settings: BackgroundProviderSettings, frames: Blob[]): Promise<string[]> => {
+  const suggestions = await BACKGROUND_PROVIDERS[settings.provider].suggestPrompts({ frames, count: MAX_SUGGESTIONS }, settings);
+  const cleaned = suggestions
+    .map(text => text.trim().replace(/^(?:[-*•]|\d+[.)])\s*/, "").replace(/^["']+|["'.]+$/g, "").trim())
+    .filter(text => text.length > 0);
+  const unique = cleaned.filter((text, i) => cleaned.findIndex(other => other.toLowerCase() === text.toLowerCase()) === i);
+  if (unique.length === 0) throw new EmptyResponseError("The provider returned no suggestions.");
+  return unique.slice(0, MAX_SUGGESTIONS);
+};
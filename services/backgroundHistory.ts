@@ -0,0 +1,108 @@
+import { GeneratedBackground, ScenePlate } from "../types";
+
+const DB_NAME = "resized-video-pro";
+const DB_VERSION = 2;
+const STORE = "backgrounds";
+const PLATE_STORE = "scenePlates";
+
+// Oldest generations are dropped past this many, so the gallery doesn't grow without bound
+const HISTORY_LIMIT = 60;
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: "id" }).createIndex("createdAt", "createdAt");
+        }
+        if (!db.objectStoreNames.contains(PLATE_STORE)) {
+          db.createObjectStore(PLATE_STORE, { keyPath: "key" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry instead of reusing the failure
+    database.catch(() => { database = null; });
+  }
+  return database;
+};
+
+const settle = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const complete = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// Newest first
+export const loadGeneratedBackgrounds = async (): Promise<GeneratedBackground[]> => {
+  try {
+    const db = await openDatabase();
+    const entries = await settle<GeneratedBackground[]>(db.transaction(STORE).objectStore(STORE).index("createdAt").getAll());
+    return entries.reverse();
+  } catch (e) {
+    console.warn("Background gallery is unavailable:", e);
+    return [];
+  }
+};
+
+/**
+ * Stores new generations and prunes the oldest past HISTORY_LIMIT.
+ * Returns the whole gallery afterwards, newest first.
+ */
+export const saveGeneratedBackgrounds = async (entries: GeneratedBackground[]): Promise<GeneratedBackground[]> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE, "readwrite");
+  const store = transaction.objectStore(STORE);
+  entries.forEach(entry => store.put(entry));
+
+  const keys = await settle(store.index("createdAt").getAllKeys());
+  keys.slice(0, Math.max(0, keys.length - HISTORY_LIMIT)).forEach(key => store.delete(key));
+
+  await complete(transaction);
+  return loadGeneratedBackgrounds();
+};
+
+export const deleteGeneratedBackground = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE, "readwrite");
+  transaction.objectStore(STORE).delete(id);
+  await complete(transaction);
+};
+
+export const createGeneratedBackground = async (prompt: string, aspectRatio: string, dataUrl: string): Promise<GeneratedBackground> => ({
+  id: crypto.randomUUID(),
+  prompt,
+  aspectRatio,
+  createdAt: Date.now(),
+  image: await (await fetch(dataUrl)).blob(),
+});
+
+export const loadScenePlate = async (key: string): Promise<ScenePlate | null> => {
+  try {
+    const db = await openDatabase();
+    return (await settle<ScenePlate | undefined>(db.transaction(PLATE_STORE).objectStore(PLATE_STORE).get(key))) ?? null;
+  } catch (e) {
+    console.warn("Scene plate cache is unavailable:", e);
+    return null;
+  }
+};
+
+// Replaces the plate cached under the same key
+export const saveScenePlate = async (plate: ScenePlate): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(PLATE_STORE, "readwrite");
+  transaction.objectStore(PLATE_STORE).put(plate);
+  await complete(transaction);
+};
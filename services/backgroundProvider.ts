@@ -0,0 +1,80 @@
+export type BackgroundProviderId = "gemini" | "local" | "mock";
+
+export interface BackgroundProviderSettings {
+  provider: BackgroundProviderId;
+  // URL of the local image server's text-to-image endpoint
+  localEndpoint: string;
+}
+
+export interface BackgroundRequest {
+  prompt: string;
+  // "W:H", one of GENERATION_ASPECT_RATIOS
+  aspectRatio: string;
+  // Number of variations
+  count: number;
+}
+
+export interface OutpaintRequest {
+  // A still of the video, to be kept in the centre
+  frame: Blob;
+  // "W:H" of the plate to return
+  aspectRatio: string;
+}
+
+export interface SuggestionRequest {
+  // Stills sampled across the video
+  frames: Blob[];
+  // How many prompts to ask for
+  count: number;
+}
+
+// An image generator the AI background can come from
+export interface BackgroundProvider {
+  id: BackgroundProviderId;
+  // Returns the variations as data URLs; fewer than requested is fine, none is an EmptyResponseError
+  generate(request: BackgroundRequest, settings: BackgroundProviderSettings): Promise<string[]>;
+  // Extends the frame's scene out to the aspect ratio; returns a data URL
+  outpaint(request: OutpaintRequest, settings: BackgroundProviderSettings): Promise<string>;
+  // Background prompts that suit the frames' palette and mood
+  suggestPrompts(request: SuggestionRequest, settings: BackgroundProviderSettings): Promise<string[]>;
+}
+
+// Base class, so the UI can tell provider failures from other errors
+export class BackgroundProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackgroundProviderError";
+  }
+}
+
+export class MissingApiKeyError extends BackgroundProviderError {
+  constructor(message = "No API key is configured for the image provider.") {
+    super(message);
+    this.name = "MissingApiKeyError";
+  }
+}
+
+export class QuotaExceededError extends BackgroundProviderError {
+  constructor(message = "The image provider's quota or rate limit was reached.") {
+    super(message);
+    this.name = "QuotaExceededError";
+  }
+}
+
+export class EmptyResponseError extends BackgroundProviderError {
+  constructor(message = "The image provider returned no image.") {
+    super(message);
+    this.name = "EmptyResponseError";
+  }
+}
+
+/**
+ * Settles one request per variation, for providers that return a single image per call.
+ * Failed variations are dropped; if all fail, the first error is thrown.
+ */
+export const generateVariations = async (count: number, generateOne: () => Promise<string>): Promise<string[]> => {
+  const results = await Promise.allSettled(Array.from({ length: count }, generateOne));
+  const images = results.flatMap(result => result.status === "fulfilled" ? [result.value] : []);
+  if (images.length === 0) throw (results[0] as PromiseRejectedResult).reason;
+  return images;
+};
@@ -0,0 +1,111 @@
+import { BackgroundGradient, BackgroundType, Dimensions, VideoConfig } from "../types";
+import type { CompositionContext } from "./compositor";
+import { getDuration, seekTo } from "./frameSampling";
+
+export const DEFAULT_BACKGROUND_GRADIENT: BackgroundGradient = {
+  kind: "linear",
+  angle: 180,
+  stops: [
+    { offset: 0, color: "#1e3a8a" },
+    { offset: 1, color: "#9333ea" },
+  ],
+};
+
+// An uploaded background video, decoded up front so every frame can be drawn synchronously
+export interface BackgroundClip {
+  frames: ImageBitmap[];
+  frameRate: number;
+}
+
+// Clip frames are kept this small (long side) and this few; they sit behind the video, usually blurred
+const CLIP_MAX_SIDE = 960;
+const CLIP_FRAME_RATE = 15;
+const CLIP_MEMORY_BUDGET = 192 * 1024 * 1024;
+
+export const drawGradient = (ctx: CompositionContext, gradient: BackgroundGradient, frame: Dimensions) => {
+  const { width, height } = frame;
+  const centreX = width / 2;
+  const centreY = height / 2;
+
+  let fill: CanvasGradient;
+  if (gradient.kind === "radial") {
+    fill = ctx.createRadialGradient(centreX, centreY, 0, centreX, centreY, Math.hypot(width, height) / 2);
+  } else {
+    // Same line length as a CSS linear-gradient, so the first and last stops reach the corners
+    const radians = (gradient.angle * Math.PI) / 180;
+    const dx = Math.sin(radians);
+    const dy = -Math.cos(radians);
+    const half = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+    fill = ctx.createLinearGradient(centreX - dx * half, centreY - dy * half, centreX + dx * half, centreY + dy * half);
+  }
+
+  [...gradient.stops]
+    .sort((a, b) => a.offset - b.offset)
+    .forEach(stop => fill.addColorStop(Math.min(1, Math.max(0, stop.offset)), stop.color));
+
+  ctx.fillStyle = fill;
+  ctx.fillRect(0, 0, width, height);
+};
+
+// The clip frame showing at `time`; the clip loops from the start of the source
+export const getClipFrame = (clip: BackgroundClip, time: number): ImageBitmap =>
+  clip.frames[Math.floor(Math.max(0, time) * clip.frameRate) % clip.frames.length];
+
+const fitSide = ({ width, height }: Dimensions, maxSide: number): Dimensions => {
+  const scale = Math.min(1, maxSide / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+const loadClip = async (file: File): Promise<BackgroundClip> => {
+  const video = document.createElement("video");
+  video.muted = true;
+  video.preload = "auto";
+  video.src = URL.createObjectURL(file);
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      video.onloadeddata = () => resolve();
+      video.onerror = () => reject(new Error("Could not load the background video."));
+    });
+
+    const size = fitSide({ width: video.videoWidth, height: video.videoHeight }, CLIP_MAX_SIDE);
+    // Long clips get fewer frames per second rather than going over the memory budget
+    const maxFrames = Math.max(1, Math.floor(CLIP_MEMORY_BUDGET / (size.width * size.height * 4)));
+    const duration = await getDuration(video);
+    const count = Math.max(1, Math.min(maxFrames, Math.round(duration * CLIP_FRAME_RATE)));
+    const frameRate = count / duration;
+
+    const frames: ImageBitmap[] = [];
+    for (let i = 0; i < count; i++) {
+      await seekTo(video, i / frameRate);
+      frames.push(await createImageBitmap(video, { resizeWidth: size.width, resizeHeight: size.height }));
+    }
+    return { frames, frameRate };
+  } finally {
+    URL.revokeObjectURL(video.src);
+  }
+};
+
+/**
+ * Decodes the config's uploaded background: an ImageBitmap for IMAGE, a looping clip for VIDEO.
+ * Returns null for the other background types.
+ */
+export const loadBackgroundMedia = async (config: VideoConfig): Promise<ImageBitmap | BackgroundClip | null> => {
+  const file = config.backgroundMedia;
+  if (!file) return null;
+  if (config.backgroundType === BackgroundType.IMAGE) {
+    try {
+      return await createImageBitmap(file);
+    } catch {
+      throw new Error("Could not load the background image.");
+    }
+  }
+  if (config.backgroundType === BackgroundType.VIDEO) return loadClip(file);
+  return null;
+};
+
+export const disposeBackgroundMedia = (media: ImageBitmap | BackgroundClip | null) => {
+  if (!media) return;
+  if (media instanceof ImageBitmap) media.close();
+  else media.frames.forEach(frame => frame.close());
+};
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { detectBorders, FramePixels } from "./borderDetection";
+
+type Rgb = [number, number, number];
+
+const BLACK: Rgb = [0, 0, 0];
+
+// Busy, deterministic picture content that never reads as a solid line
+const picture = (x: number, y: number, seed: number): Rgb => [
+  40 + ((x * 37 + y * 91 + seed * 13) % 180),
+  40 + ((x * 53 + y * 17 + seed * 29) % 180),
+  40 + ((x * 11 + y * 67 + seed * 7) % 180),
+];
+
+const makeFrame = (width: number, height: number, paint: (x: number, y: number) => Rgb): FramePixels => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data.set([...paint(x, y), 255], (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+};
+
+// A 100x100 frame with bars of the given thickness (in pixels) and `color`
+const barred = (bars: { top?: number; bottom?: number; left?: number; right?: number }, color = BLACK, seed = 0) =>
+  makeFrame(100, 100, (x, y) => {
+    const { top = 0, bottom = 0, left = 0, right = 0 } = bars;
+    const inBar = y < top || y >= 100 - bottom || x < left || x >= 100 - right;
+    return inBar ? color : picture(x, y, seed);
+  });
+
+describe("detectBorders", () => {
+  it("finds letterbox bars and trims the blended edge line", () => {
+    const crop = detectBorders([barred({ top: 12, bottom: 12 }), barred({ top: 12, bottom: 12 }, BLACK, 1)]);
+    expect(crop).not.toBeNull();
+    expect(crop!.x).toBe(0);
+    expect(crop!.width).toBe(1);
+    expect(crop!.y).toBeCloseTo(0.13);
+    expect(crop!.height).toBeCloseTo(0.74);
+  });
+
+  it("finds pillarbox bars in a solid color", () => {
+    const gray: Rgb = [128, 128, 128];
+    const crop = detectBorders([barred({ left: 20, right: 20 }, gray), barred({ left: 20, right: 20 }, gray, 2)]);
+    expect(crop).not.toBeNull();
+    expect(crop!.y).toBe(0);
+    expect(crop!.x).toBeCloseTo(0.21);
+    expect(crop!.width).toBeCloseTo(0.58);
+  });
+
+  it("returns null without bars", () => {
+    expect(detectBorders([barred({}), barred({}, BLACK, 3)])).toBeNull();
+  });
+
+  it("tolerates compression noise in the bars", () => {
+    const noisy = makeFrame(100, 100, (x, y) => y < 10 || y >= 90 ? [(x * 7) % 12, (x * 3) % 12, 4] : picture(x, y, 0));
+    const crop = detectBorders([noisy]);
+    expect(crop!.y).toBeCloseTo(0.11);
+  });
+
+  it("only keeps bars that are there in every frame", () => {
+    // A dark opening shot reads as a thick bar; the later frame shows the real one
+    const crop = detectBorders([barred({ top: 30, bottom: 10 }), barred({ top: 10, bottom: 10 }, BLACK, 4)]);
+    expect(crop!.y).toBeCloseTo(0.11);
+    expect(crop!.height).toBeCloseTo(0.78);
+  });
+
+  it("skips blank frames", () => {
+    const black = makeFrame(100, 100, () => BLACK);
+    const crop = detectBorders([black, barred({ top: 12, bottom: 12 })]);
+    expect(crop!.y).toBeCloseTo(0.13);
+    expect(detectBorders([black])).toBeNull();
+  });
+
+  it("ignores slivers too thin to matter", () => {
+    expect(detectBorders([barred({ left: 1 })])).toBeNull();
+  });
+
+  it("gives up when almost nothing would be left", () => {
+    expect(detectBorders([barred({ top: 45, bottom: 45 })])).toBeNull();
+  });
+});
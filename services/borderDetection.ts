@@ -0,0 +1,87 @@
+import { Rect } from "../types";
+
+// RGBA pixels of one sampled frame; ImageData fits
+export interface FramePixels {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+type Edge = "top" | "bottom" | "left" | "right";
+
+const EDGES: Edge[] = ["top", "bottom", "left", "right"];
+
+// How far a channel may stray from the bar's color and still count as bar, for compression noise
+const COLOR_TOLERANCE = 24;
+// Share of a line's pixels that may stray anyway, for specks and watermarks
+const MAX_OUTLIERS = 0.02;
+// Bars thinner than this fraction of the frame aren't worth cropping
+const MIN_BAR = 0.02;
+// A crop that leaves less than this fraction on either axis is more likely dark footage than bars
+const MIN_CONTENT = 0.25;
+
+/**
+ * Counts the lines in from `edge` that share the color of the outermost line.
+ * Returns the whole frame's size when it's a single color.
+ */
+const measureBar = ({ width, height, data }: FramePixels, edge: Edge): number => {
+  const vertical = edge === "left" || edge === "right";
+  const lines = vertical ? width : height;
+  const length = vertical ? height : width;
+  const offset = (line: number, i: number) => {
+    const row = vertical ? i : edge === "top" ? line : height - 1 - line;
+    const column = !vertical ? i : edge === "left" ? line : width - 1 - line;
+    return (row * width + column) * 4;
+  };
+
+  const color = [0, 0, 0];
+  for (let i = 0; i < length; i++) {
+    for (let c = 0; c < 3; c++) color[c] += data[offset(0, i) + c] / length;
+  }
+
+  const maxOutliers = Math.floor(length * MAX_OUTLIERS);
+  for (let line = 0; line < lines; line++) {
+    let outliers = 0;
+    for (let i = 0; i < length && outliers <= maxOutliers; i++) {
+      const o = offset(line, i);
+      if (
+        Math.abs(data[o] - color[0]) > COLOR_TOLERANCE ||
+        Math.abs(data[o + 1] - color[1]) > COLOR_TOLERANCE ||
+        Math.abs(data[o + 2] - color[2]) > COLOR_TOLERANCE
+      ) outliers++;
+    }
+    if (outliers > maxOutliers) return line;
+  }
+  return lines;
+};
+
+/**
+ * Looks for letterbox or pillarbox bars baked into sampled `frames`: solid black or colored
+ * borders that stay put in every frame. Returns the crop that removes them, in fractions of
+ * the frame, or null when there are none. Blank frames (fades, black slates) are skipped.
+ */
+export const detectBorders = (frames: FramePixels[]): Rect | null => {
+  const bars: Record<Edge, number> = { top: Infinity, bottom: Infinity, left: Infinity, right: Infinity };
+  let measured = 0;
+
+  for (const frame of frames) {
+    const top = measureBar(frame, "top");
+    if (top >= frame.height) continue;
+    measured++;
+
+    for (const edge of EDGES) {
+      const lines = edge === "top" ? top : measureBar(frame, edge);
+      const size = edge === "top" || edge === "bottom" ? frame.height : frame.width;
+      // One more line goes too, as the line where bar meets picture is usually a blend of both
+      bars[edge] = Math.min(bars[edge], lines / size >= MIN_BAR ? (lines + 1) / size : 0);
+    }
+  }
+  if (measured === 0) return null;
+
+  const width = 1 - bars.left - bars.right;
+  const height = 1 - bars.top - bars.bottom;
+  if (width === 1 && height === 1) return null;
+  if (width < MIN_CONTENT || height < MIN_CONTENT) return null;
+
+  return { x: bars.left, y: bars.top, width, height };
+};
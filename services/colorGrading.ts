@@ -0,0 +1,71 @@
+import { ColorAdjustments, ColorLut, VideoConfig } from "../types";
+
+export const DEFAULT_COLOR_ADJUSTMENTS: ColorAdjustments = {
+  exposure: 0,
+  contrast: 0,
+  saturation: 0,
+  temperature: 0,
+  vignette: 0,
+  sharpen: 0,
+};
+
+// Largest LUT we accept; 65 is the biggest size grading tools export
+const MAX_LUT_SIZE = 65;
+
+export const hasColorGrading = (config: VideoConfig): boolean =>
+  config.lut !== null || Object.values(config.color).some(value => value !== 0);
+
+const parseTriple = (parts: string[], line: number): [number, number, number] => {
+  const values = parts.slice(0, 3).map(Number);
+  if (parts.length < 3 || values.some(value => !Number.isFinite(value))) {
+    throw new Error(`Invalid LUT entry on line ${line}.`);
+  }
+  return values as [number, number, number];
+};
+
+/**
+ * Parses an Adobe/Resolve `.cube` file. Only 3D LUTs are supported.
+ */
+export const parseCubeLut = (text: string, name: string): ColorLut => {
+  let size = 0;
+  let title = "";
+  let domainMin: [number, number, number] = [0, 0, 0];
+  let domainMax: [number, number, number] = [1, 1, 1];
+  let data: Float32Array | null = null;
+  let entries = 0;
+
+  const lines = text.split(/\r?\n/);
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index].trim();
+    if (!line || line.startsWith("#")) continue;
+
+    const parts = line.split(/\s+/);
+    const keyword = parts[0].toUpperCase();
+    if (keyword === "TITLE") {
+      title = line.slice(5).trim().replace(/^"|"$/g, "");
+    } else if (keyword === "LUT_1D_SIZE") {
+      throw new Error("1D LUTs are not supported. Use a 3D .cube file.");
+    } else if (keyword === "LUT_3D_SIZE") {
+      size = Number(parts[1]);
+      if (!Number.isInteger(size) || size < 2 || size > MAX_LUT_SIZE) {
+        throw new Error(`Unsupported LUT size: ${parts[1]}.`);
+      }
+      data = new Float32Array(size * size * size * 3);
+    } else if (keyword === "DOMAIN_MIN") {
+      domainMin = parseTriple(parts.slice(1), index + 1);
+    } else if (keyword === "DOMAIN_MAX") {
+      domainMax = parseTriple(parts.slice(1), index + 1);
+    } else if (/^[-+.\d]/.test(keyword)) {
+      if (!data) throw new Error("LUT data starts before LUT_3D_SIZE.");
+      if (entries >= size * size * size) throw new Error("LUT has more entries than its size allows.");
+      data.set(parseTriple(parts, index + 1), entries * 3);
+      entries++;
+    }
+    // Other keywords (LUT_IN_VIDEO_RANGE etc.) don't change how the table is applied here
+  }
+
+  if (!data || entries !== size * size * size) {
+    throw new Error("LUT file is incomplete.");
+  }
+  return { name: title || name.replace(/\.cube$/i, ""), size, data, domainMin, domainMax };
+};
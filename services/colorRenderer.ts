@@ -0,0 +1,218 @@
+import { ColorAdjustments, ColorLut, Dimensions, Rect } from "../types";
+
+const VERTEX_SHADER = `#version 300 es
+in vec2 a_position;
+out vec2 v_uv;
+void main() {
+  v_uv = a_position * 0.5 + 0.5;
+  gl_Position = vec4(a_position, 0.0, 1.0);
+}`;
+
+// Order matters and matches what colorists expect: sharpen the source, grade, then the LUT, then vignette
+const FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+precision highp sampler3D;
+
+uniform sampler2D u_source;
+uniform sampler3D u_lut;
+uniform bool u_useLut;
+uniform float u_lutSize;
+uniform vec3 u_domainMin;
+uniform vec3 u_domainMax;
+uniform vec2 u_texel;
+// Part of the source that is graded: offset and size in texture coordinates
+uniform vec4 u_crop;
+uniform float u_exposure;
+uniform float u_contrast;
+uniform float u_saturation;
+uniform float u_temperature;
+uniform float u_vignette;
+uniform float u_sharpen;
+
+in vec2 v_uv;
+out vec4 outColor;
+
+void main() {
+  vec2 uv = u_crop.xy + v_uv * u_crop.zw;
+  vec3 color = texture(u_source, uv).rgb;
+
+  if (u_sharpen > 0.0) {
+    vec3 blur = (
+      texture(u_source, uv + vec2(u_texel.x, 0.0)).rgb +
+      texture(u_source, uv - vec2(u_texel.x, 0.0)).rgb +
+      texture(u_source, uv + vec2(0.0, u_texel.y)).rgb +
+      texture(u_source, uv - vec2(0.0, u_texel.y)).rgb
+    ) * 0.25;
+    color += (color - blur) * u_sharpen * 2.0;
+  }
+
+  color *= exp2(u_exposure);
+  color = (color - 0.5) * (1.0 + u_contrast) + 0.5;
+  float luma = dot(color, vec3(0.2126, 0.7152, 0.0722));
+  color = mix(vec3(luma), color, 1.0 + u_saturation);
+  color *= vec3(1.0 + u_temperature * 0.2, 1.0, 1.0 - u_temperature * 0.2);
+  color = clamp(color, 0.0, 1.0);
+
+  if (u_useLut) {
+    vec3 coord = clamp((color - u_domainMin) / (u_domainMax - u_domainMin), 0.0, 1.0);
+    // Sample texel centres so 0 and 1 land exactly on the first and last entries
+    color = texture(u_lut, coord * ((u_lutSize - 1.0) / u_lutSize) + 0.5 / u_lutSize).rgb;
+  }
+
+  float edge = smoothstep(1.25, 0.35, length(v_uv - 0.5) * 2.0);
+  color *= mix(1.0, edge, u_vignette);
+
+  outColor = vec4(color, 1.0);
+}`;
+
+// Graded frames are never larger than this on either side
+const MAX_SIZE = 4096;
+
+const WHOLE_FRAME: Rect = { x: 0, y: 0, width: 1, height: 1 };
+
+const UNIFORMS = [
+  "u_source", "u_lut", "u_useLut", "u_lutSize", "u_domainMin", "u_domainMax", "u_texel", "u_crop",
+  "u_exposure", "u_contrast", "u_saturation", "u_temperature", "u_vignette", "u_sharpen",
+] as const;
+
+interface ColorRenderer {
+  canvas: OffscreenCanvas | HTMLCanvasElement;
+  gl: WebGL2RenderingContext;
+  sourceTexture: WebGLTexture;
+  lutTexture: WebGLTexture;
+  // The table currently uploaded to lutTexture
+  lut: ColorLut | null;
+  uniforms: Record<(typeof UNIFORMS)[number], WebGLUniformLocation | null>;
+}
+
+// undefined until first use; null once WebGL2 turned out to be unavailable
+let renderer: ColorRenderer | null | undefined;
+
+const compileShader = (gl: WebGL2RenderingContext, type: number, source: string): WebGLShader => {
+  const shader = gl.createShader(type)!;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    throw new Error(`Shader failed to compile: ${gl.getShaderInfoLog(shader)}`);
+  }
+  return shader;
+};
+
+const createTexture = (gl: WebGL2RenderingContext, target: number): WebGLTexture => {
+  const texture = gl.createTexture()!;
+  gl.bindTexture(target, texture);
+  gl.texParameteri(target, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(target, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  gl.texParameteri(target, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(target, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  if (target === gl.TEXTURE_3D) gl.texParameteri(target, gl.TEXTURE_WRAP_R, gl.CLAMP_TO_EDGE);
+  return texture;
+};
+
+const createRenderer = (): ColorRenderer | null => {
+  const canvas = typeof OffscreenCanvas !== "undefined"
+    ? new OffscreenCanvas(1, 1)
+    : document.createElement("canvas");
+  const gl = canvas.getContext("webgl2", { alpha: false, premultipliedAlpha: false, preserveDrawingBuffer: true }) as WebGL2RenderingContext | null;
+  if (!gl) return null;
+
+  const program = gl.createProgram()!;
+  gl.attachShader(program, compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER));
+  gl.attachShader(program, compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER));
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(`Shader program failed to link: ${gl.getProgramInfoLog(program)}`);
+  }
+  gl.useProgram(program);
+
+  // One triangle pair covering the viewport
+  gl.bindBuffer(gl.ARRAY_BUFFER, gl.createBuffer());
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+  const position = gl.getAttribLocation(program, "a_position");
+  gl.enableVertexAttribArray(position);
+  gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+
+  const uniforms = Object.fromEntries(
+    UNIFORMS.map(name => [name, gl.getUniformLocation(program, name)])
+  ) as ColorRenderer["uniforms"];
+
+  gl.activeTexture(gl.TEXTURE1);
+  const lutTexture = createTexture(gl, gl.TEXTURE_3D);
+  gl.activeTexture(gl.TEXTURE0);
+  const sourceTexture = createTexture(gl, gl.TEXTURE_2D);
+  gl.uniform1i(uniforms.u_source, 0);
+  gl.uniform1i(uniforms.u_lut, 1);
+
+  return { canvas, gl, sourceTexture, lutTexture, lut: null, uniforms };
+};
+
+const getRenderer = (): ColorRenderer | null => {
+  if (renderer === undefined) {
+    try {
+      renderer = createRenderer();
+    } catch (e) {
+      console.error("Color grading renderer failed to start:", e);
+      renderer = null;
+    }
+    if (!renderer) console.warn("WebGL2 is unavailable; color adjustments are skipped.");
+  }
+  return renderer;
+};
+
+const uploadLut = ({ gl, lutTexture }: ColorRenderer, lut: ColorLut) => {
+  gl.activeTexture(gl.TEXTURE1);
+  gl.bindTexture(gl.TEXTURE_3D, lutTexture);
+  // Flipping is only allowed for image sources, not typed arrays
+  gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+  gl.texImage3D(gl.TEXTURE_3D, 0, gl.RGB16F, lut.size, lut.size, lut.size, 0, gl.RGB, gl.FLOAT, lut.data);
+  gl.activeTexture(gl.TEXTURE0);
+};
+
+/**
+ * Grades the `crop` of `source` (fractions of its size) on the GPU at `size` and returns the
+ * canvas holding the result, ready to be drawn with drawImage. Returns null when WebGL2 isn't available.
+ */
+export const gradeFrame = (
+  source: TexImageSource,
+  size: Dimensions,
+  color: ColorAdjustments,
+  lut: ColorLut | null,
+  crop: Rect = WHOLE_FRAME
+): OffscreenCanvas | HTMLCanvasElement | null => {
+  const r = getRenderer();
+  if (!r) return null;
+  const { gl, canvas, uniforms } = r;
+
+  const width = Math.max(1, Math.min(MAX_SIZE, Math.round(size.width)));
+  const height = Math.max(1, Math.min(MAX_SIZE, Math.round(size.height)));
+  if (canvas.width !== width) canvas.width = width;
+  if (canvas.height !== height) canvas.height = height;
+  gl.viewport(0, 0, width, height);
+
+  if (lut && r.lut !== lut) {
+    uploadLut(r, lut);
+    r.lut = lut;
+  }
+
+  gl.bindTexture(gl.TEXTURE_2D, r.sourceTexture);
+  gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+  gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+
+  gl.uniform1i(uniforms.u_useLut, lut ? 1 : 0);
+  gl.uniform1f(uniforms.u_lutSize, lut?.size ?? 2);
+  gl.uniform3fv(uniforms.u_domainMin, lut?.domainMin ?? [0, 0, 0]);
+  gl.uniform3fv(uniforms.u_domainMax, lut?.domainMax ?? [1, 1, 1]);
+  // The texture is flipped, so the crop's top edge is measured from 1
+  gl.uniform4f(uniforms.u_crop, crop.x, 1 - crop.y - crop.height, crop.width, crop.height);
+  // Neighbours for sharpening are one output pixel away
+  gl.uniform2f(uniforms.u_texel, crop.width / width, crop.height / height);
+  gl.uniform1f(uniforms.u_exposure, color.exposure);
+  gl.uniform1f(uniforms.u_contrast, color.contrast);
+  gl.uniform1f(uniforms.u_saturation, color.saturation);
+  gl.uniform1f(uniforms.u_temperature, color.temperature);
+  gl.uniform1f(uniforms.u_vignette, color.vignette);
+  gl.uniform1f(uniforms.u_sharpen, color.sharpen);
+
+  gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+  return canvas;
+};
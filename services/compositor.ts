@@ -0,0 +1,206 @@
+import { BackgroundFit, BackgroundType, Dimensions, Rect, ScaleMode, VideoConfig } from "../types";
+import { computeLayout, fitRect, FrameLayout, placeBackground } from "./layout";
+import { BackgroundClip, drawGradient, getClipFrame } from "./backgrounds";
+import { hasColorGrading } from "./colorGrading";
+import { gradeFrame } from "./colorRenderer";
+import { drawOverlays } from "./overlays";
+import { getSceneColor } from "./palette";
+import { drawSubtitles } from "./subtitles";
+
+export type CompositionContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// AI, extended-scene or uploaded background. Workers can't decode into HTMLImageElements, so they get
+// ImageBitmaps instead; uploaded videos loop as a clip of frames.
+export type BackgroundImage = HTMLImageElement | ImageBitmap | BackgroundClip;
+
+// Blurred backdrops are drawn at a fraction of the output size and upscaled.
+// Blurring a quarter-size canvas is ~16x cheaper and the upscale softens it further.
+export const BACKDROP_SCALE = 0.25;
+
+let backdropCanvas: OffscreenCanvas | HTMLCanvasElement | null = null;
+
+// Shared scratch canvas; composeFrame is synchronous so outputs can take turns using it
+const getBackdropContext = (width: number, height: number): CompositionContext | null => {
+  if (!backdropCanvas) {
+    backdropCanvas = typeof OffscreenCanvas !== "undefined"
+      ? new OffscreenCanvas(width, height)
+      : document.createElement("canvas");
+  }
+  if (backdropCanvas.width !== width) backdropCanvas.width = width;
+  if (backdropCanvas.height !== height) backdropCanvas.height = height;
+  return backdropCanvas.getContext("2d", { alpha: false }) as CompositionContext | null;
+};
+
+interface BackdropOptions {
+  fit: BackgroundFit;
+  blur: number;
+  zoom: number;
+  dim: number;
+}
+
+const whole = ({ width, height }: Dimensions): Rect => ({ x: 0, y: 0, width, height });
+
+// Fill the frame with the `region` of an image (the source itself or an uploaded background),
+// optionally blurred, then dim it
+const drawBackdrop = (
+  ctx: CompositionContext,
+  image: CanvasImageSource,
+  region: Rect,
+  frame: Dimensions,
+  config: VideoConfig,
+  { fit, blur, zoom, dim }: BackdropOptions
+) => {
+  if (blur <= 0) {
+    const { x, y, width, height } = placeBackground(region, frame, fit, zoom);
+    ctx.drawImage(image, region.x, region.y, region.width, region.height, x, y, width, height);
+  } else {
+    const width = Math.max(1, Math.round(frame.width * BACKDROP_SCALE));
+    const height = Math.max(1, Math.round(frame.height * BACKDROP_SCALE));
+    const backdrop = getBackdropContext(width, height);
+    if (!backdrop || !backdropCanvas) return;
+
+    const scaledBlur = blur * BACKDROP_SCALE;
+    // Contain can leave bars around the image; they take the background color
+    backdrop.fillStyle = config.backgroundColor;
+    backdrop.fillRect(0, 0, width, height);
+    // Overscan a covering image by the blur radius so the edges don't fade towards transparent
+    const rect = placeBackground(region, { width, height }, fit, zoom, fit === "cover" ? scaledBlur : 0);
+    backdrop.filter = `blur(${scaledBlur}px)`;
+    backdrop.drawImage(image, region.x, region.y, region.width, region.height, rect.x, rect.y, rect.width, rect.height);
+    backdrop.filter = "none";
+
+    ctx.drawImage(backdropCanvas, 0, 0, frame.width, frame.height);
+  }
+
+  if (dim > 0) {
+    ctx.fillStyle = `rgba(0,0,0,${dim})`;
+    ctx.fillRect(0, 0, frame.width, frame.height);
+  }
+};
+
+// Darkens an AI background so the video stands out
+export const IMAGE_BACKGROUND_DIM = 0.3;
+
+const drawBackground = (
+  ctx: CompositionContext,
+  source: CanvasImageSource,
+  region: Rect,
+  layout: FrameLayout,
+  config: VideoConfig,
+  backgroundImage: BackgroundImage | null,
+  time: number
+) => {
+  const { output } = layout;
+
+  switch (layout.background) {
+    case BackgroundType.BLURRED_VIDEO:
+      drawBackdrop(ctx, source, region, output, config, {
+        fit: "cover",
+        blur: config.backgroundBlur,
+        zoom: Math.max(1, config.backgroundZoom),
+        dim: config.backgroundDim,
+      });
+      break;
+
+    case BackgroundType.GRADIENT:
+      drawGradient(ctx, config.backgroundGradient, output);
+      break;
+
+    case BackgroundType.IMAGE:
+    case BackgroundType.VIDEO: {
+      if (!backgroundImage) break;
+      const image = "frames" in backgroundImage ? getClipFrame(backgroundImage, time) : backgroundImage;
+      drawBackdrop(ctx, image, whole(image), output, config, {
+        fit: config.backgroundFit,
+        blur: config.backgroundBlur,
+        zoom: 1,
+        dim: config.backgroundDim,
+      });
+      break;
+    }
+
+    case BackgroundType.EXTENDED_SCENE: {
+      // The plate continues the picture, so it fills the frame undimmed for the seams to line up
+      if (!backgroundImage || "frames" in backgroundImage) break;
+      const { x, y, width, height } = fitRect(backgroundImage, output, "cover");
+      ctx.drawImage(backgroundImage, x, y, width, height);
+      break;
+    }
+
+    case BackgroundType.AI: {
+      if (!backgroundImage || "frames" in backgroundImage) break;
+      const { x, y, width, height } = fitRect(backgroundImage, output, "cover");
+      ctx.drawImage(backgroundImage, x, y, width, height);
+
+      ctx.fillStyle = `rgba(0,0,0,${IMAGE_BACKGROUND_DIM})`;
+      ctx.fillRect(0, 0, output.width, output.height);
+      break;
+    }
+  }
+};
+
+/**
+ * Composes one frame of any source (video element or decoded VideoFrame) onto a 2D context,
+ * on screen or an OffscreenCanvas. Placement comes from computeLayout; this only draws.
+ * `time` is the frame's position in the source, in seconds, for time-dependent settings.
+ */
+export const composeFrame = (
+  ctx: CompositionContext,
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  config: VideoConfig,
+  backgroundImage: BackgroundImage | null,
+  time = 0
+) => {
+  const layout = computeLayout({ width: sourceWidth, height: sourceHeight }, config, time);
+  const { output, video, crop } = layout;
+
+  // Grade on the GPU at the size the picture is drawn, so preview and export at the same output
+  // size get identical results. Without WebGL2 the ungraded source is used.
+  const graded = hasColorGrading(config)
+    ? gradeFrame(source as TexImageSource, video, config.color, config.lut, {
+        x: crop.x / sourceWidth,
+        y: crop.y / sourceHeight,
+        width: crop.width / sourceWidth,
+        height: crop.height / sourceHeight,
+      })
+    : null;
+  // The graded canvas already holds just the cropped part
+  const picture = graded ?? source;
+  const region = graded ? whole(graded) : crop;
+
+  // The auto color fades between scenes per output, keyed on its context
+  ctx.fillStyle = layout.background === BackgroundType.COLOR && config.autoBackgroundColor
+    ? getSceneColor(ctx, picture, region, time, config.backgroundColor)
+    : config.backgroundColor;
+  ctx.fillRect(0, 0, output.width, output.height);
+
+  if (layout.background) {
+    drawBackground(ctx, picture, region, layout, config, backgroundImage, time);
+  }
+
+  if (layout.shadow) {
+    ctx.shadowColor = "rgba(0, 0, 0, 0.5)";
+    ctx.shadowBlur = 20;
+    ctx.shadowOffsetX = 0;
+    ctx.shadowOffsetY = 10;
+  }
+
+  ctx.drawImage(picture, region.x, region.y, region.width, region.height, video.x, video.y, video.width, video.height);
+
+  ctx.shadowColor = "transparent";
+  ctx.shadowBlur = 0;
+  ctx.shadowOffsetX = 0;
+  ctx.shadowOffsetY = 0;
+
+  if (config.overlays.length > 0) {
+    drawOverlays(ctx, config.overlays, time, output);
+  }
+
+  if (config.subtitles.length > 0) {
+    // Only Contain leaves padding that captions can move into
+    const videoRect = config.scaleMode === ScaleMode.CONTAIN ? video : null;
+    drawSubtitles(ctx, config.subtitles, config.subtitleStyle, time, output, videoRect);
+  }
+};
@@ -0,0 +1,149 @@
+import { Muxer as Mp4Muxer, ArrayBufferTarget as Mp4Target } from "mp4-muxer";
+import { Muxer as WebMMuxer, ArrayBufferTarget as WebMTarget } from "webm-muxer";
+import { OutputFormat, VideoCodec } from "../types";
+
+export interface CodecCandidate {
+  // Codec string passed to VideoEncoder/AudioEncoder
+  codec: string;
+  // Codec identifier the muxer expects for the same stream
+  muxerCodec: string;
+}
+
+export interface VideoCodecCandidate extends CodecCandidate {
+  family: VideoCodec;
+  // Codec name in a MediaRecorder mime type, e.g. "video/webm;codecs=vp9"
+  recorderCodec: string;
+}
+
+export interface OutputFormatSpec {
+  mimeType: string;
+  extension: string;
+  // In order of preference; the first supported one wins unless a codec is picked
+  videoCodecs: VideoCodecCandidate[];
+  audioCodecs: CodecCandidate[];
+  // Used by the MediaRecorder fallback, in order of preference
+  recorderMimeTypes: string[];
+}
+
+export const OUTPUT_FORMATS: Record<OutputFormat, OutputFormatSpec> = {
+  [OutputFormat.MP4]: {
+    mimeType: "video/mp4",
+    extension: "mp4",
+    videoCodecs: [
+      { family: VideoCodec.H264, codec: "avc1.640033", muxerCodec: "avc", recorderCodec: "avc1" }, // High profile, level 5.1
+      { family: VideoCodec.H264, codec: "avc1.4d0033", muxerCodec: "avc", recorderCodec: "avc1" }, // Main profile, level 5.1
+      { family: VideoCodec.H264, codec: "avc1.42003e", muxerCodec: "avc", recorderCodec: "avc1" }, // Constrained baseline
+      { family: VideoCodec.HEVC, codec: "hvc1.1.6.L153.B0", muxerCodec: "hevc", recorderCodec: "hvc1" }, // Main, level 5.1
+      { family: VideoCodec.AV1, codec: "av01.0.09M.08", muxerCodec: "av1", recorderCodec: "av01" }, // Main, level 5.1
+    ],
+    audioCodecs: [
+      { codec: "mp4a.40.2", muxerCodec: "aac" },
+      // Not every platform ships an AAC encoder; Opus-in-MP4 still plays nearly everywhere
+      { codec: "opus", muxerCodec: "opus" },
+    ],
+    recorderMimeTypes: [
+      "video/mp4;codecs=avc1.640028,mp4a.40.2",
+      "video/mp4;codecs=avc1,mp4a",
+      "video/mp4",
+    ],
+  },
+  [OutputFormat.WEBM]: {
+    mimeType: "video/webm",
+    extension: "webm",
+    videoCodecs: [
+      { family: VideoCodec.VP9, codec: "vp09.00.40.08", muxerCodec: "V_VP9", recorderCodec: "vp9" },
+      { family: VideoCodec.VP8, codec: "vp8", muxerCodec: "V_VP8", recorderCodec: "vp8" },
+      { family: VideoCodec.AV1, codec: "av01.0.09M.08", muxerCodec: "V_AV1", recorderCodec: "av01" },
+    ],
+    audioCodecs: [
+      { codec: "opus", muxerCodec: "A_OPUS" },
+    ],
+    recorderMimeTypes: [
+      "video/webm;codecs=vp9,opus",
+      "video/webm;codecs=vp8,opus",
+      "video/webm",
+    ],
+  },
+};
+
+export interface MuxerVideoTrack {
+  muxerCodec: string;
+  width: number;
+  height: number;
+  frameRate: number;
+}
+
+export interface MuxerAudioTrack {
+  muxerCodec: string;
+  sampleRate: number;
+  numberOfChannels: number;
+}
+
+// Common surface over mp4-muxer and webm-muxer so the export pipeline doesn't care about the container
+export interface ContainerMuxer {
+  addVideoChunk: (chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) => void;
+  addAudioChunk: (chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) => void;
+  finalize: () => Blob;
+}
+
+export const createContainerMuxer = (
+  format: OutputFormat,
+  video: MuxerVideoTrack,
+  audio?: MuxerAudioTrack
+): ContainerMuxer => {
+  const { mimeType } = OUTPUT_FORMATS[format];
+
+  if (format === OutputFormat.MP4) {
+    const muxer = new Mp4Muxer({
+      target: new Mp4Target(),
+      video: {
+        codec: video.muxerCodec as "avc" | "hevc" | "av1",
+        width: video.width,
+        height: video.height,
+        frameRate: video.frameRate,
+      },
+      audio: audio && {
+        codec: audio.muxerCodec as "aac" | "opus",
+        sampleRate: audio.sampleRate,
+        numberOfChannels: audio.numberOfChannels,
+      },
+      // Put the moov box up front so players and upload validators can read it without seeking
+      fastStart: "in-memory",
+      firstTimestampBehavior: "offset",
+    });
+
+    return {
+      addVideoChunk: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+      addAudioChunk: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+      finalize: () => {
+        muxer.finalize();
+        return new Blob([muxer.target.buffer], { type: mimeType });
+      },
+    };
+  }
+
+  const muxer = new WebMMuxer({
+    target: new WebMTarget(),
+    video: {
+      codec: video.muxerCodec,
+      width: video.width,
+      height: video.height,
+      frameRate: video.frameRate,
+    },
+    audio: audio && {
+      codec: audio.muxerCodec,
+      sampleRate: audio.sampleRate,
+      numberOfChannels: audio.numberOfChannels,
+    },
+    firstTimestampBehavior: "offset",
+  });
+
+  return {
+    addVideoChunk: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    addAudioChunk: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+    finalize: () => {
+      muxer.finalize();
+      return new Blob([muxer.target.buffer], { type: mimeType });
+    },
+  };
+};
@@ -0,0 +1,71 @@
+export type ExportControlState = "running" | "paused" | "cancelled";
+
+// Thrown out of runExportJob when the user cancels; callers should treat it as a quiet stop
+export class ExportCancelledError extends Error {
+  constructor() {
+    super("Export cancelled.");
+    this.name = "ExportCancelledError";
+  }
+}
+
+// Handle the UI keeps while an export runs, to pause, resume or cancel it
+export interface ExportControl {
+  getState: () => ExportControlState;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  subscribe: (listener: (state: ExportControlState) => void) => () => void;
+  // Resolves immediately while running, waits while paused, throws ExportCancelledError once cancelled
+  checkpoint: () => Promise<void>;
+}
+
+export const createExportControl = (): ExportControl => {
+  let state: ExportControlState = "running";
+  const listeners = new Set<(state: ExportControlState) => void>();
+
+  const setState = (next: ExportControlState) => {
+    // Cancelling is final
+    if (state === "cancelled" || state === next) return;
+    state = next;
+    listeners.forEach(listener => listener(next));
+  };
+
+  const subscribe = (listener: (state: ExportControlState) => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+  };
+
+  const checkpoint = (): Promise<void> => {
+    if (state === "running") return Promise.resolve();
+    if (state === "cancelled") return Promise.reject(new ExportCancelledError());
+
+    return new Promise((resolve, reject) => {
+      const unsubscribe = subscribe((next) => {
+        unsubscribe();
+        if (next === "cancelled") reject(new ExportCancelledError());
+        else resolve();
+      });
+    });
+  };
+
+  return {
+    getState: () => state,
+    pause: () => setState("paused"),
+    resume: () => setState("running"),
+    cancel: () => setState("cancelled"),
+    subscribe,
+    checkpoint,
+  };
+};
+
+// Progress updates re-render the UI (or cross a worker boundary); pass on at most one per
+// interval, plus the final 100%
+export const throttleProgress = (onProgress: (percent: number) => void, intervalMs = 250) => {
+  let last = -Infinity;
+  return (percent: number) => {
+    const now = performance.now();
+    if (percent < 100 && now - last < intervalMs) return;
+    last = now;
+    onProgress(percent);
+  };
+};
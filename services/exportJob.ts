@@ -0,0 +1,345 @@
+import { ExportResult, OutputFormat, VideoConfig } from "../types";
+import { BackgroundImage, composeFrame } from "./compositor";
+import { OUTPUT_FORMATS } from "./containerMuxer";
+import { buildFileNames, getOutputDimensions } from "./exportTargets";
+import { preloadOverlayImages } from "./overlays";
+import { decodeAudioFile, renderAudioMix } from "./audioMix";
+import { getRecorderMimeTypes, getVideoBitrate } from "./exportSettings";
+import { ExportCancelledError, ExportControl, throttleProgress } from "./exportControl";
+import { getDuration } from "./frameSampling";
+import { canComposeInWorker, createFrameCompositor, exportInWorker } from "./renderWorker";
+import { decodeAudioRange, isWebCodecsSupported, WebCodecsUnsupportedError } from "./webCodecsExporter";
+
+export interface ExportJobOptions {
+  file: File;
+  // One entry per output file
+  configs: VideoConfig[];
+  format: OutputFormat;
+  backgroundImage: BackgroundImage | null;
+  baseFileName?: string;
+  // Lets the caller pause, resume or cancel; a cancelled job rejects with ExportCancelledError
+  control?: ExportControl;
+  onProgress?: (percent: number) => void;
+}
+
+// Assumed for bitrate when the fallback keeps the source rate, which it can't read
+const FALLBACK_FRAME_RATE = 30;
+
+// Loads the file into a hidden, in-document video element the recorder can play from
+const createPlaybackVideo = (file: File): Promise<HTMLVideoElement> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement("video");
+    video.src = URL.createObjectURL(file);
+    video.playsInline = true;
+    video.style.cssText = "position:absolute;opacity:0;pointer-events:none;width:1px;height:1px;";
+    document.body.appendChild(video);
+
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => {
+      disposePlaybackVideo(video);
+      reject(new Error("Could not load video for recording."));
+    };
+  });
+};
+
+const disposePlaybackVideo = (video: HTMLVideoElement) => {
+  video.pause();
+  URL.revokeObjectURL(video.src);
+  video.remove();
+};
+
+const readDuration = async (file: File): Promise<number> => {
+  const video = document.createElement("video");
+  video.preload = "metadata";
+  video.src = URL.createObjectURL(file);
+  try {
+    await new Promise<void>((resolve, reject) => {
+      video.onloadedmetadata = () => resolve();
+      video.onerror = () => reject(new Error("Could not read video duration."));
+    });
+    return await getDuration(video);
+  } finally {
+    URL.revokeObjectURL(video.src);
+  }
+};
+
+// The source's own audio for the range, with the source time its buffer starts at. Only the
+// range is decoded where WebCodecs can read the file; anything else is decoded whole.
+const decodeOriginalAudio = async (file: File, start: number, end: number): Promise<{ buffer: AudioBuffer; start: number } | null> => {
+  try {
+    const buffer = await decodeAudioRange(file, start, end);
+    return buffer && { buffer, start };
+  } catch (e) {
+    console.warn("Decoding the whole audio track instead:", e);
+  }
+  const buffer = await decodeAudioFile(file);
+  return buffer && { buffer, start: 0 };
+};
+
+// Mixes the export's audio track for the config's range; null when the export is silent
+const prepareAudio = async (file: File, config: VideoConfig): Promise<AudioBuffer | null> => {
+  const { audio: settings, trimStart, trimEnd } = config;
+  const duration = await readDuration(file);
+  const start = trimStart ?? 0;
+  const end = Math.min(trimEnd ?? duration, duration);
+
+  const original = settings.muteOriginal ? null : await decodeOriginalAudio(file, start, end);
+  const music = settings.music ? await decodeAudioFile(settings.music) : null;
+  if (settings.music && !music) {
+    throw new Error("Could not decode the music track.");
+  }
+  if (!original && !music) return null;
+
+  return renderAudioMix({
+    original: original?.buffer ?? null,
+    originalStart: original?.start,
+    music,
+    settings,
+    start,
+    end,
+  });
+};
+
+// Realtime fallback: play the video at 1x and record one canvas per output
+const recordWithMediaRecorder = async (
+  file: File,
+  configs: VideoConfig[],
+  format: OutputFormat,
+  backgroundImage: BackgroundImage | null,
+  audio: AudioBuffer | null,
+  control?: ExportControl,
+  onProgress?: (percent: number) => void
+): Promise<Blob[]> => {
+  // Every output shares the source range of the first config
+  const { trimStart, trimEnd } = configs[0];
+
+  // Only accept recorder types of the chosen container (and codec) so the download matches the user's pick
+  const mimeTypes = configs.map(config =>
+    getRecorderMimeTypes(format, config.videoCodec).find(type => MediaRecorder.isTypeSupported(type))
+  );
+  if (mimeTypes.some(type => !type)) {
+    throw new Error(`${format} export with the selected codec is not supported in this browser.`);
+  }
+
+  const video = await createPlaybackVideo(file);
+  let duration: number;
+  try {
+    duration = await getDuration(video);
+  } catch (e) {
+    disposePlaybackVideo(video);
+    throw e;
+  }
+  const start = trimStart ?? 0;
+  const end = Math.min(trimEnd ?? duration, duration);
+
+  // The mixed audio plays through its own graph into the recorders, never to the speakers
+  const audioContext = audio ? new AudioContext({ sampleRate: audio.sampleRate }) : null;
+  const audioDestination = audioContext?.createMediaStreamDestination();
+  const audioTrack = audioDestination?.stream.getAudioTracks()[0] ?? null;
+
+  const recordings = configs.map((config, i) => {
+    const canvas = document.createElement("canvas");
+    const targetDim = getOutputDimensions(config);
+    canvas.width = targetDim.width;
+    canvas.height = targetDim.height;
+
+    // Without a fixed rate the stream captures a frame whenever the canvas is drawn, i.e. at the source rate
+    const stream = config.frameRate ? canvas.captureStream(config.frameRate) : canvas.captureStream();
+    if (audioTrack) stream.addTrack(audioTrack.clone());
+
+    const mimeType = mimeTypes[i]!;
+    const mediaRecorder = new MediaRecorder(stream, {
+      mimeType,
+      videoBitsPerSecond: getVideoBitrate(config, targetDim, config.frameRate ?? FALLBACK_FRAME_RATE),
+    });
+
+    const chunks: Blob[] = [];
+    mediaRecorder.ondataavailable = (e) => {
+      if (e.data && e.data.size > 0) {
+        chunks.push(e.data);
+      }
+    };
+    const done = new Promise<Blob>((resolve) => {
+      mediaRecorder.onstop = () => resolve(new Blob(chunks, { type: mimeType }));
+    });
+
+    return { config, canvas, mediaRecorder, done };
+  });
+
+  // Compose on a worker when the canvases can be handed over, so playback isn't starved;
+  // otherwise draw on this thread
+  const compositor = canComposeInWorker()
+    ? await createFrameCompositor(recordings.map(r => r.canvas), configs, backgroundImage)
+    : null;
+  const contexts = compositor ? [] : recordings.map(r => r.canvas.getContext("2d", { alpha: false }));
+
+  // Seek to the in point before the recorders start so no frames from before it get captured
+  await new Promise<void>((resolve) => {
+    video.onseeked = () => resolve();
+    video.currentTime = start;
+  });
+
+  // Don't start recording while the user has the job paused
+  try {
+    await control?.checkpoint();
+  } catch (e) {
+    compositor?.dispose();
+    disposePlaybackVideo(video);
+    audioContext?.close();
+    throw e;
+  }
+
+  // Start recording with timeslice
+  recordings.forEach(r => r.mediaRecorder.start(1000));
+
+  // Audio comes from the mix, so the element itself stays silent
+  video.muted = true;
+
+  await new Promise(r => setTimeout(r, 200)); // buffer
+
+  try {
+    await video.play();
+  } catch (e) {
+    console.error("Auto-play failed during recording:", e);
+    recordings.forEach(r => r.mediaRecorder.stop());
+    compositor?.dispose();
+    disposePlaybackVideo(video);
+    audioContext?.close();
+    throw new Error("Could not play video for recording.");
+  }
+
+  if (audioContext && audioDestination && audio) {
+    await audioContext.resume();
+    const source = audioContext.createBufferSource();
+    source.buffer = audio;
+    source.connect(audioDestination);
+    source.start();
+  }
+
+  let cancelled = false;
+  let unsubscribe: (() => void) | undefined;
+
+  await new Promise<void>((resolve) => {
+    let finished = false;
+    const finish = (delay: number) => {
+      if (finished) return;
+      finished = true;
+      video.pause();
+      setTimeout(() => {
+        recordings.forEach(({ mediaRecorder }) => {
+          if (mediaRecorder.state !== "inactive") mediaRecorder.stop();
+        });
+        resolve();
+      }, delay);
+    };
+
+    // Pausing suspends playback, the recorders and the audio graph together so they stay in sync
+    unsubscribe = control?.subscribe((state) => {
+      if (state === "paused") {
+        video.pause();
+        recordings.forEach(({ mediaRecorder }) => {
+          if (mediaRecorder.state === "recording") mediaRecorder.pause();
+        });
+        audioContext?.suspend();
+      } else if (state === "running") {
+        audioContext?.resume();
+        recordings.forEach(({ mediaRecorder }) => {
+          if (mediaRecorder.state === "paused") mediaRecorder.resume();
+        });
+        video.play().catch(e => console.error("Resume failed during recording:", e));
+      } else {
+        cancelled = true;
+        finish(0);
+      }
+    });
+
+    const renderLoop = (_now: number, metadata: VideoFrameCallbackMetadata) => {
+      if (finished) return;
+
+      if (compositor) {
+        compositor.compose(video, metadata.mediaTime);
+      } else {
+        recordings.forEach(({ config }, i) => {
+          const ctx = contexts[i];
+          if (ctx) composeFrame(ctx, video, video.videoWidth, video.videoHeight, config, backgroundImage, metadata.mediaTime);
+        });
+      }
+
+      onProgress?.(Math.min(100, ((metadata.mediaTime - start) / (end - start)) * 100));
+
+      if (video.ended || metadata.mediaTime >= end) {
+        // Give the recorders a moment to flush the last frames
+        finish(500);
+        return;
+      }
+
+      // Schedule next frame
+      if ("requestVideoFrameCallback" in video) {
+        video.requestVideoFrameCallback(renderLoop);
+      } else {
+        // Fallback for browsers without rVFC
+        const currentTime = (video as HTMLVideoElement).currentTime;
+        requestAnimationFrame(() => renderLoop(performance.now(), { mediaTime: currentTime } as any));
+      }
+    };
+
+    if ("requestVideoFrameCallback" in video) {
+      video.requestVideoFrameCallback(renderLoop);
+    } else {
+      requestAnimationFrame(() => renderLoop(performance.now(), { mediaTime: start } as any));
+    }
+  });
+  unsubscribe?.();
+
+  const blobs = await Promise.all(recordings.map(r => r.done));
+  compositor?.dispose();
+  disposePlaybackVideo(video);
+  audioContext?.close();
+
+  if (cancelled) throw new ExportCancelledError();
+
+  if (blobs.some(blob => blob.size === 0)) {
+    throw new Error("Recording failed (0 bytes). Try a different browser or file.");
+  }
+  return blobs;
+};
+
+/**
+ * Renders every config in `configs` from one source file. Uses the WebCodecs pipeline
+ * when available and falls back to realtime MediaRecorder capture otherwise.
+ */
+export const runExportJob = async ({
+  file,
+  configs,
+  format,
+  backgroundImage,
+  baseFileName,
+  control,
+  onProgress,
+}: ExportJobOptions): Promise<ExportResult[]> => {
+  const fileNames = buildFileNames(configs, OUTPUT_FORMATS[format].extension, baseFileName);
+  let blobs: Blob[] | null = null;
+
+  await preloadOverlayImages(configs.flatMap(config => config.overlays));
+  // Every output shares the audio settings and range of the first config
+  const audio = await prepareAudio(file, configs[0]);
+  await control?.checkpoint();
+
+  // Fast path: decode, compose and encode frame by frame in a worker, not bound to playback speed
+  if (isWebCodecsSupported()) {
+    try {
+      blobs = await exportInWorker({ file, format, configs, audio, backgroundImage, control, onProgress });
+    } catch (err) {
+      // The worker already turned pipeline failures into a user-facing message
+      if (!(err instanceof WebCodecsUnsupportedError)) throw err;
+      console.warn("Falling back to MediaRecorder export:", err.message);
+    }
+  }
+
+  if (!blobs) {
+    const reportProgress = onProgress && throttleProgress(onProgress);
+    blobs = await recordWithMediaRecorder(file, configs, format, backgroundImage, audio, control, reportProgress);
+  }
+
+  return blobs.map((blob, i) => ({ fileName: fileNames[i], blob, url: URL.createObjectURL(blob) }));
+};
@@ -0,0 +1,68 @@
+import { Dimensions, ExportQuality, OutputFormat, VideoCodec, VideoConfig } from "../types";
+import { OUTPUT_FORMATS, VideoCodecCandidate } from "./containerMuxer";
+
+export const FRAME_RATE_OPTIONS = [24, 30, 60];
+export const RESOLUTION_SCALE_OPTIONS = [1, 0.75, 0.5, 0.25];
+
+// Bits per pixel per frame for each quality level; 1080x1920 at 30fps on HIGH is ~9 Mbps
+const BITS_PER_PIXEL: Record<Exclude<ExportQuality, ExportQuality.CUSTOM>, number> = {
+  [ExportQuality.LOW]: 0.04,
+  [ExportQuality.MEDIUM]: 0.08,
+  [ExportQuality.HIGH]: 0.15,
+};
+
+const MIN_BITRATE = 250000;
+
+export const getVideoBitrate = (config: VideoConfig, size: Dimensions, frameRate: number): number => {
+  if (config.quality === ExportQuality.CUSTOM) return Math.max(MIN_BITRATE, config.videoBitrate);
+  return Math.max(MIN_BITRATE, Math.round(size.width * size.height * frameRate * BITS_PER_PIXEL[config.quality]));
+};
+
+// Encoder candidates for the format, narrowed to the picked codec if the format can carry it
+export const getVideoCodecCandidates = (format: OutputFormat, codec: VideoCodec | null): VideoCodecCandidate[] => {
+  const candidates = OUTPUT_FORMATS[format].videoCodecs;
+  const picked = candidates.filter(candidate => candidate.family === codec);
+  return picked.length > 0 ? picked : candidates;
+};
+
+// MediaRecorder mime types to try for the config, in order of preference
+export const getRecorderMimeTypes = (format: OutputFormat, codec: VideoCodec | null): string[] => {
+  const spec = OUTPUT_FORMATS[format];
+  if (!codec || !spec.videoCodecs.some(candidate => candidate.family === codec)) return spec.recorderMimeTypes;
+  // Several candidates can share a recorder codec name (H.264 profiles)
+  const codecs = new Set(getVideoCodecCandidates(format, codec).map(candidate => candidate.recorderCodec));
+  return [...codecs].map(recorderCodec => `${spec.mimeType};codecs=${recorderCodec}`);
+};
+
+const isCandidateSupported = async (candidate: VideoCodecCandidate, mimeType: string): Promise<boolean> => {
+  if (typeof VideoEncoder !== "undefined") {
+    try {
+      const support = await VideoEncoder.isConfigSupported({
+        codec: candidate.codec,
+        width: 1920,
+        height: 1080,
+        bitrate: 8000000,
+        framerate: 30,
+      });
+      if (support.supported) return true;
+    } catch {
+      // Unknown codec strings throw in some browsers; try the recorder instead
+    }
+  }
+  return typeof MediaRecorder !== "undefined" &&
+    MediaRecorder.isTypeSupported(`${mimeType};codecs=${candidate.recorderCodec}`);
+};
+
+/**
+ * Codecs this browser can export for `format`, through either WebCodecs or the
+ * MediaRecorder fallback, in the format's order of preference.
+ */
+export const getSupportedVideoCodecs = async (format: OutputFormat): Promise<VideoCodec[]> => {
+  const spec = OUTPUT_FORMATS[format];
+  const supported: VideoCodec[] = [];
+  for (const candidate of spec.videoCodecs) {
+    if (supported.includes(candidate.family)) continue;
+    if (await isCandidateSupported(candidate, spec.mimeType)) supported.push(candidate.family);
+  }
+  return supported;
+};
@@ -0,0 +1,71 @@
+import { zipSync } from "fflate";
+import { AspectRatio, Dimensions, ExportResult, ExportTarget, RESOLUTIONS, VideoConfig } from "../types";
+
+// Effective output size for a config (preset ratio or custom size, times the resolution scale)
+export const getOutputDimensions = (config: VideoConfig): Dimensions => {
+  const base = config.aspectRatio === AspectRatio.CUSTOM
+    ? { width: config.customWidth || 1920, height: config.customHeight || 1080 }
+    : RESOLUTIONS[config.aspectRatio];
+
+  const scale = config.resolutionScale || 1;
+  if (scale === 1) return base;
+  // Keep dimensions even, most encoders reject odd sizes
+  return {
+    width: Math.max(2, Math.round((base.width * scale) / 2) * 2),
+    height: Math.max(2, Math.round((base.height * scale) / 2) * 2),
+  };
+};
+
+export const resolveTargetConfig = (config: VideoConfig, target: ExportTarget): VideoConfig => ({
+  ...config,
+  ...target.overrides,
+});
+
+export const getTargetLabel = (config: VideoConfig): string => {
+  if (config.aspectRatio === AspectRatio.CUSTOM) {
+    const { width, height } = getOutputDimensions(config);
+    return `${width}x${height}`;
+  }
+  return config.aspectRatio;
+};
+
+// e.g. "resized-video-pro-9x16.mp4", with a counter appended if two targets share a name
+export const buildFileNames = (
+  configs: VideoConfig[],
+  extension: string,
+  baseName = "resized-video-pro"
+): string[] => {
+  if (configs.length === 1) return [`${baseName}.${extension}`];
+
+  const used = new Map<string, number>();
+  return configs.map((cfg) => {
+    const base = `${baseName}-${getTargetLabel(cfg).replace(":", "x")}`;
+    const count = (used.get(base) || 0) + 1;
+    used.set(base, count);
+    return count > 1 ? `${base}-${count}.${extension}` : `${base}.${extension}`;
+  });
+};
+
+export const createZipArchive = async (results: ExportResult[]): Promise<Blob> => {
+  const entries: Record<string, [Uint8Array, { level: 0 }]> = {};
+  for (const result of results) {
+    // Batch items can come from files with the same name; never let one entry overwrite another
+    let name = result.fileName;
+    for (let n = 2; entries[name]; n++) {
+      name = result.fileName.replace(/(\.[^.]+)?$/, `-${n}$1`);
+    }
+    // Video is already compressed, so store the files as-is
+    entries[name] = [new Uint8Array(await result.blob.arrayBuffer()), { level: 0 }];
+  }
+  return new Blob([zipSync(entries)], { type: "application/zip" });
+};
+
+// Saves a blob that isn't bound to an <a download> link in the UI
+export const triggerDownload = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,38 @@
+import { FocalKeyframe } from "../types";
+
+// Keyframes closer together than this (seconds) are treated as the same keyframe
+const KEYFRAME_SNAP = 0.1;
+
+const CENTRE = { x: 0.5, y: 0.5 };
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const easeInOutCubic = (t: number) =>
+  t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+
+// Eased focal point at `time`; holds the first/last keyframe outside the path
+export const getFocalPoint = (path: FocalKeyframe[], time: number): { x: number; y: number } => {
+  if (path.length === 0) return CENTRE;
+  if (time <= path[0].time) return path[0];
+
+  const last = path[path.length - 1];
+  if (time >= last.time) return last;
+
+  const next = path.findIndex(keyframe => keyframe.time > time);
+  const a = path[next - 1];
+  const b = path[next];
+  const t = easeInOutCubic((time - a.time) / (b.time - a.time));
+  return {
+    x: a.x + (b.x - a.x) * t,
+    y: a.y + (b.y - a.y) * t,
+  };
+};
+
+// Adds a keyframe, replacing any existing one at (nearly) the same time, and keeps the path sorted
+export const upsertKeyframe = (path: FocalKeyframe[], keyframe: FocalKeyframe): FocalKeyframe[] => {
+  const clamped = { time: keyframe.time, x: clamp01(keyframe.x), y: clamp01(keyframe.y) };
+  return [
+    ...path.filter(existing => Math.abs(existing.time - keyframe.time) >= KEYFRAME_SNAP),
+    clamped,
+  ].sort((a, b) => a.time - b.time);
+};
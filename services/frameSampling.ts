@@ -0,0 +1,84 @@
+// Loads a file into a detached, muted video element for frame analysis
+export const loadVideo = (file: File): Promise<HTMLVideoElement> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement("video");
+    video.muted = true;
+    video.preload = "auto";
+    video.src = URL.createObjectURL(file);
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => {
+      URL.revokeObjectURL(video.src);
+      reject(new Error("Could not load video for analysis."));
+    };
+  });
+};
+
+export const seekTo = (video: HTMLVideoElement, time: number): Promise<void> => {
+  return new Promise((resolve) => {
+    video.onseeked = () => resolve();
+    video.currentTime = time;
+  });
+};
+
+// Far past the end of any real video; seeking there makes the browser find the real end
+const DURATION_PROBE_TIME = 1e7;
+
+/**
+ * The video's duration in seconds. Files without one in their header (MediaRecorder WebM,
+ * some streamed files) report Infinity until the browser has seen their end, so seek there first.
+ */
+export const getDuration = async (video: HTMLVideoElement): Promise<number> => {
+  if (!Number.isFinite(video.duration)) {
+    await seekTo(video, DURATION_PROBE_TIME);
+    await seekTo(video, 0);
+  }
+  if (!Number.isFinite(video.duration) || video.duration <= 0) {
+    throw new Error("Could not determine the video's duration.");
+  }
+  return video.duration;
+};
+
+export interface SampleOptions {
+  // Long side of the returned canvases, in pixels
+  maxSide: number;
+  start?: number;
+  end?: number;
+}
+
+/**
+ * Grabs `count` frames spread evenly over the range (centred in equal slices, so fades at the
+ * very start and end are skipped) as canvases, with their source times.
+ */
+export const sampleFrames = async (
+  file: File,
+  count: number,
+  { maxSide, start = 0, end }: SampleOptions
+): Promise<{ time: number; canvas: HTMLCanvasElement }[]> => {
+  const video = await loadVideo(file);
+  try {
+    const duration = await getDuration(video);
+    const rangeEnd = Math.min(end ?? duration, duration);
+    const scale = Math.min(1, maxSide / Math.max(video.videoWidth, video.videoHeight));
+    const width = Math.max(1, Math.round(video.videoWidth * scale));
+    const height = Math.max(1, Math.round(video.videoHeight * scale));
+
+    const frames: { time: number; canvas: HTMLCanvasElement }[] = [];
+    for (let i = 0; i < count; i++) {
+      const time = start + ((i + 0.5) / count) * (rangeEnd - start);
+      await seekTo(video, time);
+      const canvas = document.createElement("canvas");
+      canvas.width = width;
+      canvas.height = height;
+      canvas.getContext("2d")!.drawImage(video, 0, 0, width, height);
+      frames.push({ time, canvas });
+    }
+    return frames;
+  } finally {
+    URL.revokeObjectURL(video.src);
+  }
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type = "image/jpeg", quality = 0.9): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Could not encode the frame.")), type, quality);
+  });
@@ -1,42 +1,107 @@
-import { GoogleGenAI } from "@google/genai";
+import { ApiError, GoogleGenAI, Part, Type } from "@google/genai";
+import { BackgroundProvider, EmptyResponseError, generateVariations, MissingApiKeyError, QuotaExceededError } from "./backgroundProvider";
+import { blobToBase64 } from "./sceneExtension";
 
-export const generateBackgroundImage = async (prompt: string): Promise<string> => {
+const OUTPAINT_PROMPT =
+  "Extend this video frame outwards to fill the whole image. Keep the original frame unchanged in the centre " +
+  "and continue the scene naturally into the new space on every side, matching its lighting, perspective and style. " +
+  "No borders, frames, text or watermarks.";
+
+const suggestionPrompt = (count: number) =>
+  `These are stills from one video. Suggest ${count} short prompts (under 15 words each) for an abstract ` +
+  "background image to place behind this video. Match its color palette and mood, keep them varied, " +
+  "and don't describe people or text.";
+
+const createClient = () => {
   if (!process.env.API_KEY) {
-    throw new Error("API Key not found in environment variables");
+    throw new MissingApiKeyError("API Key not found in environment variables");
   }
+  return new GoogleGenAI({ apiKey: process.env.API_KEY });
+};
+
+// 429s are the quota; everything else passes through
+const toProviderError = (error: unknown) =>
+  error instanceof ApiError && error.status === 429 ? new QuotaExceededError(error.message) : error;
 
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
+const generateImage = async (ai: GoogleGenAI, parts: Part[], aspectRatio: string): Promise<string> => {
+  let response;
   try {
-    const response = await ai.models.generateContent({
+    response = await ai.models.generateContent({
       model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [
-          { text: prompt }
-        ]
-      },
+      contents: { parts },
       config: {
         // Image generation specific config
         imageConfig: {
-            aspectRatio: "1:1", // Generating a square texture is usually versatile enough to crop/tile
+            aspectRatio,
         }
       }
     });
+  } catch (error) {
+    throw toProviderError(error);
+  }
 
-    // Extract image data
-    const parts = response.candidates?.[0]?.content?.parts;
-    if (parts) {
-      for (const part of parts) {
-        if (part.inlineData && part.inlineData.data) {
-           return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
-        }
+  // Extract image data
+  const responseParts = response.candidates?.[0]?.content?.parts;
+  if (responseParts) {
+    for (const part of responseParts) {
+      if (part.inlineData && part.inlineData.data) {
+         return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
       }
     }
-    
-    throw new Error("No image data received from Gemini.");
-
-  } catch (error) {
-    console.error("Gemini Image Generation Error:", error);
-    throw error;
   }
-};
\ No newline at end of file
+
+  throw new EmptyResponseError("No image data received from Gemini.");
+};
+
+export const geminiProvider: BackgroundProvider = {
+  id: "gemini",
+  generate: async ({ prompt, aspectRatio, count }) => {
+    const ai = createClient();
+    try {
+      // The model returns one image per request, so variations are separate requests
+      return await generateVariations(count, () => generateImage(ai, [{ text: prompt }], aspectRatio));
+    } catch (error) {
+      console.error("Gemini Image Generation Error:", error);
+      throw error;
+    }
+  },
+  outpaint: async ({ frame, aspectRatio }) => {
+    const ai = createClient();
+    try {
+      const data = await blobToBase64(frame);
+      return await generateImage(ai, [{ inlineData: { mimeType: frame.type || "image/jpeg", data } }, { text: OUTPAINT_PROMPT }], aspectRatio);
+    } catch (error) {
+      console.error("Gemini Outpainting Error:", error);
+      throw error;
+    }
+  },
+  suggestPrompts: async ({ frames, count }) => {
+    const ai = createClient();
+    const images: Part[] = await Promise.all(frames.map(async frame => ({
+      inlineData: { mimeType: frame.type || "image/jpeg", data: await blobToBase64(frame) },
+    })));
+
+    let response;
+    try {
+      response = await ai.models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: { parts: [...images, { text: suggestionPrompt(count) }] },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: { type: Type.ARRAY, items: { type: Type.STRING } },
+        }
+      });
+    } catch (error) {
+      console.error("Gemini Suggestion Error:", error);
+      throw toProviderError(error);
+    }
+
+    try {
+      const suggestions: unknown = JSON.parse(response.text ?? "[]");
+      if (Array.isArray(suggestions)) return suggestions.filter((text): text is string => typeof text === "string");
+    } catch {
+      // Falls through to the empty response below
+    }
+    throw new EmptyResponseError("No suggestions received from Gemini.");
+  },
+};
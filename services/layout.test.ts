@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest";
+import { AspectRatio, BackgroundType, Dimensions, RESOLUTIONS, ScaleMode, VideoConfig } from "../types";
+import { computeLayout, fitRect, getSourceRect, placeBackground } from "./layout";
+import { DEFAULT_VIDEO_CONFIG } from "./videoConfig";
+
+const makeConfig = (overrides: Partial<VideoConfig> = {}): VideoConfig => ({
+  ...DEFAULT_VIDEO_CONFIG,
+  customWidth: 1000,
+  customHeight: 600,
+  ...overrides,
+});
+
+const SOURCES: Record<string, Dimensions> = {
+  landscape: { width: 1920, height: 1080 },
+  portrait: { width: 720, height: 1280 },
+  square: { width: 500, height: 500 },
+};
+
+const expectedOutput = (ratio: AspectRatio): Dimensions =>
+  ratio === AspectRatio.CUSTOM ? { width: 1000, height: 600 } : RESOLUTIONS[ratio];
+
+const aspect = ({ width, height }: Dimensions) => width / height;
+
+// Allows for floating point error at the frame edges
+const EPSILON = 1e-6;
+
+describe("fitRect", () => {
+  it("letterboxes wide content inside a tall frame", () => {
+    expect(fitRect({ width: 200, height: 100 }, { width: 100, height: 100 }, "contain"))
+      .toEqual({ x: 0, y: 25, width: 100, height: 50 });
+  });
+
+  it("overflows the short side when covering", () => {
+    expect(fitRect({ width: 200, height: 100 }, { width: 100, height: 100 }, "cover"))
+      .toEqual({ x: -50, y: 0, width: 200, height: 100 });
+  });
+});
+
+describe("placeBackground", () => {
+  const frame = { width: 100, height: 100 };
+
+  it("fills the frame exactly when stretching", () => {
+    expect(placeBackground({ width: 200, height: 100 }, frame, "stretch")).toEqual({ x: 0, y: 0, width: 100, height: 100 });
+  });
+
+  it("matches fitRect without zoom or bleed", () => {
+    expect(placeBackground({ width: 200, height: 100 }, frame, "contain")).toEqual(fitRect({ width: 200, height: 100 }, frame, "contain"));
+  });
+
+  it("zooms around the centre", () => {
+    expect(placeBackground({ width: 100, height: 100 }, frame, "cover", 2)).toEqual({ x: -50, y: -50, width: 200, height: 200 });
+  });
+
+  it("covers the bleed on every side", () => {
+    expect(placeBackground({ width: 100, height: 100 }, frame, "cover", 1, 10)).toEqual({ x: -10, y: -10, width: 120, height: 120 });
+  });
+});
+
+describe("getSourceRect", () => {
+  const source = { width: 1920, height: 1080 };
+
+  it("is the whole source without a crop", () => {
+    expect(getSourceRect(source, null)).toEqual({ x: 0, y: 0, width: 1920, height: 1080 });
+  });
+
+  it("turns fractions into whole pixels", () => {
+    expect(getSourceRect(source, { x: 0, y: 0.125, width: 1, height: 0.75 })).toEqual({ x: 0, y: 135, width: 1920, height: 810 });
+  });
+
+  it("keeps the crop inside the source", () => {
+    expect(getSourceRect(source, { x: 0.5, y: -0.1, width: 0.8, height: 2 })).toEqual({ x: 960, y: 0, width: 960, height: 1080 });
+  });
+});
+
+describe("computeLayout", () => {
+  for (const ratio of Object.values(AspectRatio)) {
+    for (const [sourceName, source] of Object.entries(SOURCES)) {
+      describe(`${ratio} from a ${sourceName} source`, () => {
+        const output = expectedOutput(ratio);
+
+        it("stretches the source over the whole frame", () => {
+          const layout = computeLayout(source, makeConfig({ aspectRatio: ratio, scaleMode: ScaleMode.STRETCH }));
+          expect(layout.output).toEqual(output);
+          expect(layout.video).toEqual({ x: 0, y: 0, ...output });
+          expect(layout.background).toBeNull();
+          expect(layout.shadow).toBe(false);
+        });
+
+        it("contains the source centred inside the frame", () => {
+          const layout = computeLayout(source, makeConfig({ aspectRatio: ratio, scaleMode: ScaleMode.CONTAIN }));
+          const { video } = layout;
+          expect(layout.output).toEqual(output);
+          expect(aspect(video)).toBeCloseTo(aspect(source));
+          expect(video.x).toBeGreaterThan(-EPSILON);
+          expect(video.y).toBeGreaterThan(-EPSILON);
+          expect(video.x * 2 + video.width).toBeCloseTo(output.width);
+          expect(video.y * 2 + video.height).toBeCloseTo(output.height);
+          // One pair of edges touches the frame
+          expect(Math.min(video.x, video.y)).toBeCloseTo(0);
+          expect(layout.background).toBe(BackgroundType.COLOR);
+          expect(layout.shadow).toBe(true);
+        });
+
+        it("covers the frame with the source centred", () => {
+          const layout = computeLayout(source, makeConfig({ aspectRatio: ratio, scaleMode: ScaleMode.COVER }));
+          const { video } = layout;
+          expect(layout.output).toEqual(output);
+          expect(aspect(video)).toBeCloseTo(aspect(source));
+          expect(video.x).toBeLessThan(EPSILON);
+          expect(video.y).toBeLessThan(EPSILON);
+          expect(video.x * 2 + video.width).toBeCloseTo(output.width);
+          expect(video.y * 2 + video.height).toBeCloseTo(output.height);
+          expect(Math.max(video.x, video.y)).toBeCloseTo(0);
+          expect(layout.background).toBeNull();
+          expect(layout.shadow).toBe(false);
+        });
+      });
+    }
+  }
+
+  it("passes the background type through in Contain mode", () => {
+    const config = makeConfig({ backgroundType: BackgroundType.BLURRED_VIDEO });
+    expect(computeLayout(SOURCES.landscape, config).background).toBe(BackgroundType.BLURRED_VIDEO);
+  });
+
+  it("applies the resolution scale to the output", () => {
+    const layout = computeLayout(SOURCES.landscape, makeConfig({ resolutionScale: 0.5 }));
+    expect(layout.output).toEqual({ width: 540, height: 960 });
+    expect(layout.video.width).toBeCloseTo(540);
+  });
+
+  it("lays out the cropped source as if it were the whole source", () => {
+    // A 4:3 picture pillarboxed in a 16:9 frame
+    const config = makeConfig({ aspectRatio: AspectRatio.CLASSIC, sourceCrop: { x: 0.125, y: 0, width: 0.75, height: 1 } });
+    const layout = computeLayout(SOURCES.landscape, config);
+    expect(layout.crop).toEqual({ x: 240, y: 0, width: 1440, height: 1080 });
+    expect(layout.video).toEqual({ x: 0, y: 0, width: 1440, height: 1080 });
+  });
+
+  it("moves the Cover crop towards the focal point", () => {
+    const config = makeConfig({ scaleMode: ScaleMode.COVER, focalPath: [{ time: 0, x: 0.3, y: 0.5 }] });
+    const { video } = computeLayout(SOURCES.landscape, config);
+    // 1920x1080 scaled to 3413.3x1920; the focal point sits at the frame centre
+    expect(video.x + 0.3 * video.width).toBeCloseTo(540);
+  });
+
+  it("never uncovers the frame edge when the focal point is near the border", () => {
+    const config = makeConfig({ scaleMode: ScaleMode.COVER, focalPath: [{ time: 0, x: 0, y: 0.5 }] });
+    expect(computeLayout(SOURCES.landscape, config).video.x).toBe(0);
+
+    const right = makeConfig({ scaleMode: ScaleMode.COVER, focalPath: [{ time: 0, x: 1, y: 0.5 }] });
+    const { video, output } = computeLayout(SOURCES.landscape, right);
+    expect(video.x + video.width).toBeCloseTo(output.width);
+  });
+
+  it("follows the focal path over time", () => {
+    const config = makeConfig({
+      scaleMode: ScaleMode.COVER,
+      focalPath: [{ time: 0, x: 0.3, y: 0.5 }, { time: 2, x: 0.7, y: 0.5 }],
+    });
+    const start = computeLayout(SOURCES.landscape, config, 0).video.x;
+    const end = computeLayout(SOURCES.landscape, config, 2).video.x;
+    expect(end).toBeLessThan(start);
+  });
+});
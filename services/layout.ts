@@ -0,0 +1,90 @@
+import { BackgroundFit, BackgroundType, Dimensions, Rect, ScaleMode, VideoConfig } from "../types";
+import { getOutputDimensions } from "./exportTargets";
+import { getFocalPoint } from "./focalPath";
+
+// Where everything goes in one output frame. Pure data, so the preview, the exporters and tests share it.
+export interface FrameLayout {
+  output: Dimensions;
+  // Part of the source that is drawn, in source pixels; all of it unless config.sourceCrop is set
+  crop: Rect;
+  // Where the source is drawn; in Cover mode it extends past the output edges
+  video: Rect;
+  // What fills the frame behind the video, or null when the video covers the whole frame
+  background: BackgroundType | null;
+  // Contain floats the video on a drop shadow
+  shadow: boolean;
+}
+
+/**
+ * Scales `content` to fit inside (`contain`) or fill (`cover`) `frame`, centred.
+ */
+export const fitRect = (content: Dimensions, frame: Dimensions, mode: "contain" | "cover"): Rect => {
+  const scaleX = frame.width / content.width;
+  const scaleY = frame.height / content.height;
+  const scale = mode === "contain" ? Math.min(scaleX, scaleY) : Math.max(scaleX, scaleY);
+  const width = content.width * scale;
+  const height = content.height * scale;
+  return { x: (frame.width - width) / 2, y: (frame.height - height) / 2, width, height };
+};
+
+/**
+ * Places a background of `size` in `frame`. `zoom` scales it up around the centre and `bleed`
+ * grows the area to cover on every side, so blurred edges don't fade in from outside.
+ */
+export const placeBackground = (size: Dimensions, frame: Dimensions, fit: BackgroundFit, zoom = 1, bleed = 0): Rect => {
+  const area = { width: frame.width + bleed * 2, height: frame.height + bleed * 2 };
+  const base = fit === "stretch" ? { x: 0, y: 0, ...area } : fitRect(size, area, fit);
+  const width = base.width * zoom;
+  const height = base.height * zoom;
+  return { x: (frame.width - width) / 2, y: (frame.height - height) / 2, width, height };
+};
+
+/**
+ * The `crop` (fractions of the source, or null for all of it) in whole source pixels,
+ * kept inside the source and at least one pixel in size.
+ */
+export const getSourceRect = (source: Dimensions, crop: Rect | null): Rect => {
+  if (!crop) return { x: 0, y: 0, width: source.width, height: source.height };
+  const x = Math.min(source.width - 1, Math.max(0, Math.round(crop.x * source.width)));
+  const y = Math.min(source.height - 1, Math.max(0, Math.round(crop.y * source.height)));
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(source.width - x, Math.round(crop.width * source.width))),
+    height: Math.max(1, Math.min(source.height - y, Math.round(crop.height * source.height))),
+  };
+};
+
+/**
+ * Lays out one frame of a `source`-sized video for `config`. `time` is the frame's position
+ * in the source, in seconds, which moves the Cover crop along the focal path.
+ */
+export const computeLayout = (source: Dimensions, config: VideoConfig, time = 0): FrameLayout => {
+  const output = getOutputDimensions(config);
+  // Everything below lays out the cropped picture as if it were the whole source
+  const crop = getSourceRect(source, config.sourceCrop);
+
+  if (config.scaleMode === ScaleMode.STRETCH) {
+    return { output, crop, video: { x: 0, y: 0, ...output }, background: null, shadow: false };
+  }
+
+  if (config.scaleMode === ScaleMode.COVER) {
+    const { width, height } = fitRect(crop, output, "cover");
+    // Centre the crop on the focal point without uncovering the frame edges
+    const focal = getFocalPoint(config.focalPath, time);
+    return {
+      output,
+      crop,
+      video: {
+        x: Math.min(0, Math.max(output.width - width, output.width / 2 - focal.x * width)),
+        y: Math.min(0, Math.max(output.height - height, output.height / 2 - focal.y * height)),
+        width,
+        height,
+      },
+      background: null,
+      shadow: false,
+    };
+  }
+
+  return { output, crop, video: fitRect(crop, output, "contain"), background: config.backgroundType, shadow: true };
+};
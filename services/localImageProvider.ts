@@ -0,0 +1,86 @@
+import { BackgroundProvider, BackgroundProviderError, EmptyResponseError, QuotaExceededError } from "./backgroundProvider";
+import { mockBackgroundProvider } from "./mockBackgroundProvider";
+import { drawSceneGuide } from "./sceneExtension";
+
+// Stable Diffusion works in multiples of 64 and is trained around this size
+const LONG_SIDE = 1024;
+const SIZE_STEP = 64;
+// The mask reaches this far into the frame so the seams get repainted too
+const MASK_OVERLAP = 16;
+
+export const DEFAULT_LOCAL_ENDPOINT = "http://127.0.0.1:7860/sdapi/v1/txt2img";
+
+const OUTPAINT_PROMPT = "seamless continuation of the scene, same lighting and style, no borders, no text";
+
+const getSize = (aspectRatio: string) => {
+  const [w, h] = aspectRatio.split(":").map(Number);
+  const scale = LONG_SIDE / Math.max(w, h);
+  const round = (value: number) => Math.max(SIZE_STEP, Math.round((value * scale) / SIZE_STEP) * SIZE_STEP);
+  return { width: round(w), height: round(h) };
+};
+
+// Servers return bare base64 (AUTOMATIC1111 and compatibles) or data URLs
+const toDataUrl = (image: string) => image.startsWith("data:") ? image : `data:image/png;base64,${image}`;
+
+const post = async (endpoint: string, body: object): Promise<string[]> => {
+  let response: Response;
+  try {
+    response = await fetch(endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+  } catch {
+    throw new BackgroundProviderError(`Could not reach the local image server at ${endpoint}.`);
+  }
+
+  if (response.status === 429) throw new QuotaExceededError("The local image server is busy.");
+  if (!response.ok) throw new BackgroundProviderError(`The local image server answered ${response.status} ${response.statusText}.`);
+
+  const data = await response.json().catch(() => null);
+  const images: unknown[] = Array.isArray(data?.images) ? data.images : [];
+  const urls = images.filter((image): image is string => typeof image === "string" && image.length > 0).map(toDataUrl);
+  if (urls.length === 0) throw new EmptyResponseError("The local image server returned no images.");
+  return urls;
+};
+
+/**
+ * Any server speaking the AUTOMATIC1111 API: txt2img takes { prompt, width, height, batch_size }
+ * and returns { images: [base64, ...] }. Outpainting goes to the img2img endpoint next to it,
+ * with the frame centred on the canvas and the padding masked for inpainting. Image servers
+ * can't describe frames, so prompt suggestions come from the offline generator.
+ */
+export const localImageProvider: BackgroundProvider = {
+  id: "local",
+  generate: async ({ prompt, aspectRatio, count }, { localEndpoint }) => {
+    const { width, height } = getSize(aspectRatio);
+    return post(localEndpoint, { prompt, width, height, batch_size: count, n_iter: 1 });
+  },
+  outpaint: async ({ frame, aspectRatio }, { localEndpoint }) => {
+    const size = getSize(aspectRatio);
+    const { canvas, rect } = await drawSceneGuide(frame, size);
+
+    const mask = document.createElement("canvas");
+    mask.width = size.width;
+    mask.height = size.height;
+    const ctx = mask.getContext("2d")!;
+    ctx.fillStyle = "#fff";
+    ctx.fillRect(0, 0, size.width, size.height);
+    ctx.fillStyle = "#000";
+    ctx.fillRect(rect.x + MASK_OVERLAP, rect.y + MASK_OVERLAP, rect.width - MASK_OVERLAP * 2, rect.height - MASK_OVERLAP * 2);
+
+    const [image] = await post(localEndpoint.replace(/txt2img\/?$/, "img2img"), {
+      prompt: OUTPAINT_PROMPT,
+      init_images: [canvas.toDataURL("image/png")],
+      mask: mask.toDataURL("image/png"),
+      // Fill the masked area starting from the blurred guide rather than noise
+      inpainting_fill: 1,
+      denoising_strength: 0.85,
+      mask_blur: MASK_OVERLAP,
+      width: size.width,
+      height: size.height,
+    });
+    return image;
+  },
+  suggestPrompts: (request, settings) => mockBackgroundProvider.suggestPrompts(request, settings),
+};
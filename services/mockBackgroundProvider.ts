@@ -0,0 +1,151 @@
+import { BackgroundProvider } from "./backgroundProvider";
+import { drawSceneGuide, getRatioSize } from "./sceneExtension";
+
+const LONG_SIDE = 512;
+const OUTPAINT_LONG_SIDE = 1024;
+// Frames are averaged at this size for prompt suggestions
+const ANALYSIS_SIDE = 32;
+const HUE_BINS = 12;
+
+// Upper hue bound (degrees) of each name
+const HUE_NAMES: [number, string][] = [
+  [15, "crimson"], [40, "amber"], [65, "golden"], [150, "emerald"], [195, "teal"],
+  [250, "cobalt blue"], [290, "violet"], [335, "magenta"], [360, "crimson"],
+];
+const BLOB_COUNT = 6;
+
+// FNV-1a, so the same prompt always seeds the same images
+const hash = (text: string) => {
+  let h = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+};
+
+// mulberry32
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const paint = (prompt: string, aspectRatio: string, variation: number): string => {
+  const canvas = document.createElement("canvas");
+  Object.assign(canvas, getRatioSize(aspectRatio, LONG_SIDE));
+  const ctx = canvas.getContext("2d")!;
+  const { width, height } = canvas;
+
+  const random = createRandom(hash(`${prompt}#${variation}`));
+  const hue = random() * 360;
+
+  const base = ctx.createLinearGradient(0, 0, width * random(), height);
+  base.addColorStop(0, `hsl(${hue}, 60%, 18%)`);
+  base.addColorStop(1, `hsl(${(hue + 40 + random() * 80) % 360}, 55%, 30%)`);
+  ctx.fillStyle = base;
+  ctx.fillRect(0, 0, width, height);
+
+  // Soft glows in neighbouring hues
+  ctx.globalCompositeOperation = "lighter";
+  for (let i = 0; i < BLOB_COUNT; i++) {
+    const x = random() * width;
+    const y = random() * height;
+    const radius = (0.2 + random() * 0.4) * Math.max(width, height);
+    const glow = ctx.createRadialGradient(x, y, 0, x, y, radius);
+    glow.addColorStop(0, `hsla(${(hue + (random() - 0.5) * 120 + 360) % 360}, 70%, 55%, 0.35)`);
+    glow.addColorStop(1, "hsla(0, 0%, 0%, 0)");
+    ctx.fillStyle = glow;
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.globalCompositeOperation = "source-over";
+
+  return canvas.toDataURL("image/png");
+};
+
+const nameHue = (hue: number) => HUE_NAMES.find(([limit]) => hue < limit)![1];
+
+interface FrameMood {
+  primary: string;
+  secondary: string;
+  lightness: number;
+  saturation: number;
+}
+
+// Averages the frames' lightness and saturation and finds their two strongest hues
+const readMood = async (frames: Blob[]): Promise<FrameMood> => {
+  const canvas = document.createElement("canvas");
+  canvas.width = ANALYSIS_SIDE;
+  canvas.height = ANALYSIS_SIDE;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true })!;
+
+  const bins = new Array(HUE_BINS).fill(0);
+  let lightness = 0;
+  let saturation = 0;
+  let pixels = 0;
+
+  for (const frame of frames) {
+    const bitmap = await createImageBitmap(frame);
+    ctx.drawImage(bitmap, 0, 0, ANALYSIS_SIDE, ANALYSIS_SIDE);
+    bitmap.close();
+    const { data } = ctx.getImageData(0, 0, ANALYSIS_SIDE, ANALYSIS_SIDE);
+
+    for (let i = 0; i < data.length; i += 4) {
+      const r = data[i] / 255;
+      const g = data[i + 1] / 255;
+      const b = data[i + 2] / 255;
+      const max = Math.max(r, g, b);
+      const min = Math.min(r, g, b);
+      const l = (max + min) / 2;
+      const chroma = max - min;
+      const sat = chroma === 0 ? 0 : chroma / (1 - Math.abs(2 * l - 1));
+      lightness += l;
+      saturation += sat;
+      pixels++;
+      if (chroma === 0) continue;
+
+      const hue = max === r ? ((g - b) / chroma + 6) % 6 : max === g ? (b - r) / chroma + 2 : (r - g) / chroma + 4;
+      bins[Math.floor((hue * 60) / (360 / HUE_BINS)) % HUE_BINS] += sat;
+    }
+  }
+
+  const ranked = bins.map((weight, bin) => ({ weight, hue: (bin + 0.5) * (360 / HUE_BINS) })).sort((a, b) => b.weight - a.weight);
+  const primary = nameHue(ranked[0].hue);
+  const secondary = ranked.slice(1).map(({ hue }) => nameHue(hue)).find(name => name !== primary) ?? primary;
+  return { primary, secondary, lightness: lightness / pixels, saturation: saturation / pixels };
+};
+
+const writePrompts = ({ primary, secondary, lightness, saturation }: FrameMood): string[] => {
+  const muted = saturation < 0.15;
+  const main = muted ? (lightness < 0.35 ? "charcoal" : lightness > 0.65 ? "silver" : "slate grey") : primary;
+  const accent = muted ? "warm white" : secondary;
+  const tone = saturation > 0.45 ? "vivid" : muted ? "muted" : "soft";
+  const mood = lightness < 0.35 ? "moody, low-key" : lightness > 0.6 ? "bright and airy" : "calm, balanced";
+  const place = lightness < 0.35 ? "city lights at night" : lightness > 0.6 ? "sunlit studio" : "misty landscape";
+
+  return [
+    `${tone} ${main} and ${accent} bokeh lights, ${mood} atmosphere`,
+    `abstract ${main} watercolor wash with ${accent} accents, ${mood}`,
+    `out-of-focus ${place} in ${main} tones`,
+    `smooth ${main} to ${accent} gradient with subtle film grain`,
+    `minimal ${tone} ${main} geometric shapes, ${mood} lighting`,
+  ];
+};
+
+/**
+ * Offline stand-in that paints soft abstract gradients seeded by the prompt, "outpaints" by
+ * surrounding the frame with a blurred copy of itself and suggests prompts from the frames'
+ * colors and brightness. Deterministic, so the same input always
+ * gives the same images, which makes it usable for tests and demos.
+ */
+export const mockBackgroundProvider: BackgroundProvider = {
+  id: "mock",
+  generate: async ({ prompt, aspectRatio, count }) =>
+    Array.from({ length: count }, (_, variation) => paint(prompt, aspectRatio, variation)),
+  outpaint: async ({ frame, aspectRatio }) => {
+    const { canvas } = await drawSceneGuide(frame, getRatioSize(aspectRatio, OUTPAINT_LONG_SIDE));
+    return canvas.toDataURL("image/jpeg", 0.9);
+  },
+  suggestPrompts: async ({ frames, count }) => writePrompts(await readMood(frames)).slice(0, count),
+};
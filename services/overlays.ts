@@ -0,0 +1,89 @@
+import { Dimensions, OverlayLayer } from "../types";
+import type { CompositionContext } from "./compositor";
+
+// Decoded images by data URL; composeFrame is synchronous so images must be loaded up front.
+// Render workers can't load images themselves and get ImageBitmaps from the page instead.
+const imageCache = new Map<string, HTMLImageElement | ImageBitmap>();
+
+export const loadOverlayImage = (src: string): Promise<HTMLImageElement> => {
+  const cached = imageCache.get(src);
+  if (cached instanceof HTMLImageElement) return Promise.resolve(cached);
+
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      imageCache.set(src, img);
+      resolve(img);
+    };
+    img.onerror = () => reject(new Error("Could not load overlay image."));
+    img.src = src;
+  });
+};
+
+// Make sure every image layer can be drawn before rendering starts
+export const preloadOverlayImages = (layers: OverlayLayer[]) =>
+  Promise.all(layers.flatMap(layer => (layer.kind === "image" ? [loadOverlayImage(layer.src)] : [])));
+
+// SVGs without intrinsic size report 0; fall back to the default replaced-element size
+const getNaturalSize = (img: HTMLImageElement | ImageBitmap): Dimensions =>
+  img instanceof ImageBitmap
+    ? { width: img.width, height: img.height }
+    : { width: img.naturalWidth || 300, height: img.naturalHeight || 150 };
+
+// Bitmaps of every image layer, to hand to a render worker
+export const getOverlayBitmaps = async (layers: OverlayLayer[]): Promise<Map<string, ImageBitmap>> => {
+  const bitmaps = new Map<string, ImageBitmap>();
+  for (const layer of layers) {
+    if (layer.kind !== "image" || bitmaps.has(layer.src)) continue;
+    const img = await loadOverlayImage(layer.src);
+    const { width, height } = getNaturalSize(img);
+    bitmaps.set(layer.src, await createImageBitmap(img, { resizeWidth: width, resizeHeight: height }));
+  }
+  return bitmaps;
+};
+
+// Worker side of getOverlayBitmaps
+export const registerOverlayImages = (bitmaps: Map<string, ImageBitmap>) => {
+  bitmaps.forEach((bitmap, src) => imageCache.set(src, bitmap));
+};
+
+export const isLayerVisible = (layer: OverlayLayer, time: number) =>
+  time >= layer.start && (layer.end === undefined || time < layer.end);
+
+export const drawOverlays = (
+  ctx: CompositionContext,
+  layers: OverlayLayer[],
+  time: number,
+  frame: Dimensions
+) => {
+  const shortSide = Math.min(frame.width, frame.height);
+
+  for (const layer of layers) {
+    if (!isLayerVisible(layer, time) || layer.opacity <= 0) continue;
+
+    const centreX = layer.x * frame.width;
+    const centreY = layer.y * frame.height;
+    ctx.globalAlpha = Math.min(1, layer.opacity);
+
+    if (layer.kind === "image") {
+      const img = imageCache.get(layer.src);
+      if (!img) continue;
+      const natural = getNaturalSize(img);
+      const width = layer.scale * shortSide;
+      const height = width * (natural.height / natural.width);
+      ctx.drawImage(img, centreX - width / 2, centreY - height / 2, width, height);
+    } else {
+      const fontSize = layer.scale * shortSide;
+      const lines = layer.text.split("\n");
+      ctx.font = `bold ${fontSize}px ${layer.fontFamily}`;
+      ctx.textAlign = "center";
+      ctx.textBaseline = "middle";
+      ctx.fillStyle = layer.color;
+      lines.forEach((line, i) => {
+        ctx.fillText(line, centreX, centreY + (i - (lines.length - 1) / 2) * fontSize * 1.2);
+      });
+    }
+  }
+
+  ctx.globalAlpha = 1;
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { extractPalette, fromHex, getPaletteGradients, smoothSceneColor, toHex } from "./palette";
+
+const pixelsOf = (...runs: [string, number][]) => {
+  const colors = runs.flatMap(([hex, count]) => Array.from({ length: count }, () => [...fromHex(hex), 255]));
+  return new Uint8ClampedArray(colors.flat());
+};
+
+describe("hex colors", () => {
+  it("round-trips", () => {
+    expect(toHex(fromHex("#1e3a8a"))).toBe("#1e3a8a");
+  });
+
+  it("clamps and rounds channels", () => {
+    expect(toHex([300, -4, 127.6])).toBe("#ff0080");
+  });
+});
+
+describe("extractPalette", () => {
+  it("orders colors by how much of the frame they cover", () => {
+    expect(extractPalette(pixelsOf(["#0000ff", 25], ["#ff0000", 75]), 2)).toEqual(["#ff0000", "#0000ff"]);
+  });
+
+  it("returns fewer colors than asked for when the image has fewer", () => {
+    expect(extractPalette(pixelsOf(["#336699", 50]), 5)).toEqual(["#336699"]);
+  });
+
+  it("ignores transparent pixels", () => {
+    const pixels = pixelsOf(["#00ff00", 10], ["#ff0000", 10]);
+    for (let i = 3; i < 40; i += 4) pixels[i] = 0;
+    expect(extractPalette(pixels, 2)).toEqual(["#ff0000"]);
+  });
+
+  it("is empty for a fully transparent image", () => {
+    expect(extractPalette(new Uint8ClampedArray(16), 3)).toEqual([]);
+  });
+});
+
+describe("getPaletteGradients", () => {
+  it("makes the radial gradient run from the lightest to the darkest color", () => {
+    const radial = getPaletteGradients(["#808080", "#ffffff", "#000000"]).find(gradient => gradient.kind === "radial")!;
+    expect(radial.stops.map(stop => stop.color)).toEqual(["#ffffff", "#000000"]);
+  });
+
+  it("works from a single color", () => {
+    expect(getPaletteGradients(["#123456"])).toHaveLength(3);
+  });
+});
+
+describe("smoothSceneColor", () => {
+  it("snaps on the first frame", () => {
+    expect(smoothSceneColor(undefined, [10, 20, 30], 5)).toEqual({ color: [10, 20, 30], time: 5 });
+  });
+
+  it("moves part of the way towards a new color", () => {
+    const { color } = smoothSceneColor({ color: [0, 0, 0], time: 1 }, [100, 100, 100], 1.1);
+    expect(color[0]).toBeGreaterThan(0);
+    expect(color[0]).toBeLessThan(50);
+  });
+
+  it("snaps after a seek", () => {
+    expect(smoothSceneColor({ color: [0, 0, 0], time: 10 }, [100, 100, 100], 2).color).toEqual([100, 100, 100]);
+    expect(smoothSceneColor({ color: [0, 0, 0], time: 2 }, [100, 100, 100], 10).color).toEqual([100, 100, 100]);
+  });
+});
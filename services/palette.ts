@@ -0,0 +1,177 @@
+import { BackgroundGradient, Rect } from "../types";
+
+type Rgb = [number, number, number];
+
+// At most this many pixels go into the palette; more only slows it down
+const MAX_PALETTE_PIXELS = 20000;
+const REFINE_PASSES = 4;
+// Scene colors are averaged over frames this small
+const SCENE_SAMPLE_SIZE = 8;
+// Seconds for the auto color to move most of the way (1 - 1/e) to a new scene's color
+const SCENE_COLOR_TIME_CONSTANT = 0.6;
+// A jump in time larger than this is a seek or a new loop, and the color snaps instead of fading
+const SCENE_COLOR_MAX_GAP = 1;
+// The auto color is pulled this far towards black so the video still stands out against it
+const SCENE_COLOR_DARKEN = 0.25;
+
+export const toHex = ([r, g, b]: Rgb): string =>
+  "#" + [r, g, b].map(value => Math.round(Math.min(255, Math.max(0, value))).toString(16).padStart(2, "0")).join("");
+
+export const fromHex = (hex: string): Rgb => {
+  const value = parseInt(hex.replace("#", ""), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+const luminance = ([r, g, b]: Rgb) => 0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+const average = (colors: Rgb[]): Rgb => {
+  const sum = colors.reduce<Rgb>((total, color) => [total[0] + color[0], total[1] + color[1], total[2] + color[2]], [0, 0, 0]);
+  return [sum[0] / colors.length, sum[1] / colors.length, sum[2] / colors.length];
+};
+
+const nearest = (centers: Rgb[], color: Rgb) => {
+  let best = 0;
+  let bestDistance = Infinity;
+  centers.forEach((center, i) => {
+    const distance = (center[0] - color[0]) ** 2 + (center[1] - color[1]) ** 2 + (center[2] - color[2]) ** 2;
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = i;
+    }
+  });
+  return best;
+};
+
+/**
+ * Finds the `count` dominant colors of RGBA `pixels` by median cut, most common first.
+ * Transparent pixels are ignored.
+ */
+export const extractPalette = (pixels: Uint8ClampedArray, count = 5): string[] => {
+  const step = Math.max(1, Math.floor(pixels.length / 4 / MAX_PALETTE_PIXELS)) * 4;
+  const colors: Rgb[] = [];
+  for (let i = 0; i < pixels.length; i += step) {
+    if (pixels[i + 3] >= 128) colors.push([pixels[i], pixels[i + 1], pixels[i + 2]]);
+  }
+  if (colors.length === 0) return [];
+
+  const range = (box: Rgb[], channel: number) => {
+    let min = 255;
+    let max = 0;
+    for (const color of box) {
+      min = Math.min(min, color[channel]);
+      max = Math.max(max, color[channel]);
+    }
+    return max - min;
+  };
+  const widestChannel = (box: Rgb[]) => [0, 1, 2].reduce((best, channel) => range(box, channel) > range(box, best) ? channel : best);
+
+  const spread = (box: Rgb[]) => range(box, widestChannel(box));
+
+  // Split the box with the widest spread at its median until there are enough
+  const boxes: Rgb[][] = [colors];
+  while (boxes.length < count) {
+    let index = -1;
+    let widest = 0;
+    boxes.forEach((box, i) => {
+      if (box.length > 1 && spread(box) > widest) {
+        widest = spread(box);
+        index = i;
+      }
+    });
+    if (index < 0) break;
+
+    const box = boxes[index];
+    const channel = widestChannel(box);
+    box.sort((a, b) => a[channel] - b[channel]);
+    const middle = Math.floor(box.length / 2);
+    boxes.splice(index, 1, box.slice(0, middle), box.slice(middle));
+  }
+
+  // Median cut splits by pixel count, not at color boundaries; a few k-means passes seeded
+  // with the boxes' averages pull each color to the cluster it really belongs to
+  let centers = boxes.map(average);
+  let clusters: Rgb[][] = [];
+  for (let pass = 0; pass < REFINE_PASSES; pass++) {
+    clusters = centers.map(() => []);
+    for (const color of colors) clusters[nearest(centers, color)].push(color);
+    clusters = clusters.filter(cluster => cluster.length > 0);
+    centers = clusters.map(average);
+  }
+
+  return clusters
+    .map((cluster, i) => ({ size: cluster.length, color: toHex(centers[i]) }))
+    .sort((a, b) => b.size - a.size)
+    .map(({ color }) => color);
+};
+
+/**
+ * A few ready-made gradients in the palette's colors: top-to-bottom, diagonal, and radial
+ * from the lightest to the darkest.
+ */
+export const getPaletteGradients = (palette: string[]): BackgroundGradient[] => {
+  if (palette.length === 0) return [];
+  const [first, second = first, third = second] = palette;
+  const byLightness = [...palette].sort((a, b) => luminance(fromHex(b)) - luminance(fromHex(a)));
+
+  return [
+    { kind: "linear", angle: 180, stops: [{ offset: 0, color: first }, { offset: 1, color: second }] },
+    { kind: "linear", angle: 135, stops: [{ offset: 0, color: second }, { offset: 0.5, color: first }, { offset: 1, color: third }] },
+    { kind: "radial", angle: 180, stops: [{ offset: 0, color: byLightness[0] }, { offset: 1, color: byLightness[byLightness.length - 1] }] },
+  ];
+};
+
+export interface SceneColorState {
+  color: Rgb;
+  time: number;
+}
+
+/**
+ * Eases `previous` towards `target` for a frame at `time`, so the auto color follows scene
+ * changes smoothly. Snaps on the first frame and after seeks.
+ */
+export const smoothSceneColor = (previous: SceneColorState | undefined, target: Rgb, time: number): SceneColorState => {
+  const elapsed = previous ? time - previous.time : Infinity;
+  if (!previous || elapsed < 0 || elapsed > SCENE_COLOR_MAX_GAP) return { color: target, time };
+
+  const amount = 1 - Math.exp(-elapsed / SCENE_COLOR_TIME_CONSTANT);
+  const color = previous.color.map((value, i) => value + (target[i] - value) * amount) as Rgb;
+  return { color, time };
+};
+
+let sceneCanvas: OffscreenCanvas | HTMLCanvasElement | null = null;
+// Per output context, so outputs composed side by side each keep their own fade
+const sceneColors = new WeakMap<object, SceneColorState>();
+
+const averageFrame = (source: CanvasImageSource, region: Rect): Rgb | null => {
+  if (!sceneCanvas) {
+    sceneCanvas = typeof OffscreenCanvas !== "undefined"
+      ? new OffscreenCanvas(SCENE_SAMPLE_SIZE, SCENE_SAMPLE_SIZE)
+      : Object.assign(document.createElement("canvas"), { width: SCENE_SAMPLE_SIZE, height: SCENE_SAMPLE_SIZE });
+  }
+  const ctx = sceneCanvas.getContext("2d", { willReadFrequently: true }) as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!ctx) return null;
+
+  ctx.drawImage(source, region.x, region.y, region.width, region.height, 0, 0, SCENE_SAMPLE_SIZE, SCENE_SAMPLE_SIZE);
+  const { data } = ctx.getImageData(0, 0, SCENE_SAMPLE_SIZE, SCENE_SAMPLE_SIZE);
+  const sum: Rgb = [0, 0, 0];
+  for (let i = 0; i < data.length; i += 4) {
+    sum[0] += data[i];
+    sum[1] += data[i + 1];
+    sum[2] += data[i + 2];
+  }
+  const pixels = data.length / 4;
+  return [sum[0] / pixels, sum[1] / pixels, sum[2] / pixels];
+};
+
+/**
+ * The auto background color for the `region` of `source` at `time`: its average color, darkened
+ * a little and eased over time per `key` (the output's context).
+ */
+export const getSceneColor = (key: object, source: CanvasImageSource, region: Rect, time: number, fallback: string): string => {
+  const average = averageFrame(source, region);
+  if (!average) return fallback;
+
+  const state = smoothSceneColor(sceneColors.get(key), average.map(value => value * (1 - SCENE_COLOR_DARKEN)) as Rgb, time);
+  sceneColors.set(key, state);
+  return toHex(state.color);
+};
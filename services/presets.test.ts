@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { AspectRatio, ColorAdjustments } from "../types";
+import { applyPreset, parsePresets, serializePresets } from "./presets";
+import { DEFAULT_VIDEO_CONFIG } from "./videoConfig";
+
+describe("parsePresets", () => {
+  it("reads what serializePresets writes", () => {
+    const json = serializePresets([{ id: "a", name: "Square", config: { aspectRatio: AspectRatio.SQUARE, frameRate: null } }]);
+    const [preset] = parsePresets(json);
+    expect(preset.name).toBe("Square");
+    expect(preset.config).toEqual({ aspectRatio: AspectRatio.SQUARE, frameRate: null });
+  });
+
+  it("rejects an unknown enum value", () => {
+    expect(() => parsePresets(JSON.stringify({ name: "Odd", config: { aspectRatio: "21:9" } })))
+      .toThrow(/Preset file has an invalid setting: "21:9" is not a valid aspectRatio/);
+  });
+
+  it("rejects a numeric field that isn't a usable number", () => {
+    expect(() => parsePresets(JSON.stringify({ name: "Tiny", config: { customWidth: "wide" } }))).toThrow(/customWidth/);
+    expect(() => parsePresets(JSON.stringify({ name: "Zero", config: { resolutionScale: 0 } }))).toThrow(/resolutionScale/);
+  });
+
+  it("rejects an unknown codec or background fit", () => {
+    expect(() => parsePresets(JSON.stringify({ name: "Codec", config: { videoCodec: "MPEG-2" } }))).toThrow(/videoCodec/);
+    expect(() => parsePresets(JSON.stringify({ name: "Fit", config: { backgroundFit: "tile" } }))).toThrow(/backgroundFit/);
+    expect(parsePresets(JSON.stringify({ name: "Auto", config: { videoCodec: null } }))[0].config.videoCodec).toBeNull();
+  });
+
+  it("rejects malformed nested settings", () => {
+    expect(() => parsePresets(JSON.stringify({ name: "Color", config: { color: { exposure: "bright" } } })))
+      .toThrow("Preset file has an invalid setting: color.exposure is not a number.");
+    expect(() => parsePresets(JSON.stringify({ name: "Audio", config: { audio: 1 } }))).toThrow(/audio is not an object/);
+    expect(() => parsePresets(JSON.stringify({ name: "Limits", config: { limits: { maxDuration: "1m" } } }))).toThrow(/limits.maxDuration/);
+    expect(() => parsePresets(JSON.stringify({ name: "Layer", config: { overlays: [{ kind: "text", id: "a", x: 0.5, y: 0.5 }] } })))
+      .toThrow(/overlays\[0\]\.scale/);
+  });
+
+  it("rejects entries without a name", () => {
+    expect(() => parsePresets(JSON.stringify([{ config: {} }]))).toThrow("Preset file is missing a name or settings.");
+  });
+});
+
+describe("applyPreset", () => {
+  it("keeps current audio and color settings the preset leaves out", () => {
+    const config = { ...DEFAULT_VIDEO_CONFIG, color: { ...DEFAULT_VIDEO_CONFIG.color, contrast: 0.4 } };
+    const applied = applyPreset(config, { id: "a", name: "Warm", config: { color: { temperature: 0.3 } as ColorAdjustments } });
+    expect(applied.color).toEqual({ ...config.color, temperature: 0.3 });
+    expect(applied.audio).toEqual(config.audio);
+  });
+});
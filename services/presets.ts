@@ -0,0 +1,135 @@
+import { AspectRatio, ExportQuality, OutputFormat, Preset, VideoConfig } from "../types";
+import { getVideoBitrate } from "./exportSettings";
+import { getOutputDimensions } from "./exportTargets";
+import { findInvalidSetting } from "./videoConfig";
+
+const MB = 1024 * 1024;
+const GB = 1024 * MB;
+
+const platform = (
+  id: string,
+  name: string,
+  aspectRatio: AspectRatio,
+  frameRate: number,
+  videoBitrate: number,
+  maxDuration: number,
+  maxFileSize: number
+): Preset => ({
+  id,
+  name,
+  builtIn: true,
+  config: {
+    aspectRatio,
+    resolutionScale: 1,
+    outputFormat: OutputFormat.MP4,
+    frameRate,
+    quality: ExportQuality.CUSTOM,
+    videoBitrate,
+    limits: { maxDuration, maxFileSize },
+  },
+});
+
+export const PLATFORM_PRESETS: Preset[] = [
+  platform("tiktok", "TikTok", AspectRatio.PORTRAIT, 30, 8000000, 10 * 60, 287 * MB),
+  platform("instagram-reels", "Instagram Reels", AspectRatio.PORTRAIT, 30, 6000000, 3 * 60, 1 * GB),
+  platform("instagram-feed", "Instagram Feed", AspectRatio.VERTICAL_4_5, 30, 5000000, 60 * 60, 650 * MB),
+  platform("instagram-story", "Instagram Story", AspectRatio.PORTRAIT, 30, 6000000, 60, 250 * MB),
+  platform("youtube-shorts", "YouTube Shorts", AspectRatio.PORTRAIT, 60, 12000000, 3 * 60, 256 * GB),
+  platform("youtube", "YouTube", AspectRatio.LANDSCAPE, 30, 12000000, 12 * 60 * 60, 256 * GB),
+  platform("linkedin", "LinkedIn", AspectRatio.SQUARE, 30, 5000000, 15 * 60, 5 * GB),
+];
+
+const STORAGE_KEY = "resized-video-pro.presets";
+
+// Assumed audio bitrate when estimating file size
+const AUDIO_BITRATE = 128000;
+
+// Settings tied to one source file, or not serialisable, never go into a saved preset
+const stripFileSettings = ({ trimStart, trimEnd, sourceCrop, focalPath, subtitles, audio, lut, backgroundMedia, ...rest }: Partial<VideoConfig>): Partial<VideoConfig> => ({
+  ...rest,
+  ...(audio && { audio: { ...audio, music: null } }),
+});
+
+export const createPreset = (name: string, config: VideoConfig): Preset => ({
+  id: crypto.randomUUID(),
+  name,
+  config: stripFileSettings(config),
+});
+
+// Applies a preset while keeping the current file's settings and music track. Audio and
+// color settings the preset leaves out (older or hand-edited files) keep their current values.
+export const applyPreset = (config: VideoConfig, preset: Preset): VideoConfig => ({
+  ...config,
+  ...preset.config,
+  audio: { ...config.audio, ...preset.config.audio, music: config.audio.music },
+  color: { ...config.color, ...preset.config.color },
+  // A preset without limits clears the previous preset's
+  limits: preset.config.limits,
+});
+
+export const loadCustomPresets = (): Preset[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parsePresets(stored) : [];
+  } catch (e) {
+    console.warn("Ignoring unreadable saved presets:", e);
+    return [];
+  }
+};
+
+export const saveCustomPresets = (presets: Preset[]) => {
+  localStorage.setItem(STORAGE_KEY, serializePresets(presets));
+};
+
+export const serializePresets = (presets: Preset[]): string =>
+  JSON.stringify(presets.map(({ name, config }) => ({ name, config: stripFileSettings(config) })), null, 2);
+
+// Accepts one preset or an array of them, as written by serializePresets. New ids are assigned.
+export const parsePresets = (json: string): Preset[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Preset file is not valid JSON.");
+  }
+
+  const entries = Array.isArray(data) ? data : [data];
+  return entries.map((entry) => {
+    if (!entry || typeof entry !== "object" || typeof entry.name !== "string" || !entry.config || typeof entry.config !== "object") {
+      throw new Error("Preset file is missing a name or settings.");
+    }
+    const problem = findInvalidSetting(entry.config);
+    if (problem) throw new Error(`Preset file has an invalid setting: ${problem}`);
+    return { id: crypto.randomUUID(), name: entry.name, config: stripFileSettings(entry.config) };
+  });
+};
+
+export interface LimitWarning {
+  kind: "duration" | "fileSize";
+  limit: number;
+  actual: number;
+}
+
+/**
+ * Checks the export against the config's platform limits. Pass `fileSizes` once the export
+ * is done; before that the size is estimated from the bitrate.
+ */
+export const getLimitWarnings = (config: VideoConfig, duration: number, fileSizes?: number[]): LimitWarning[] => {
+  const { limits } = config;
+  if (!limits) return [];
+
+  const warnings: LimitWarning[] = [];
+  if (limits.maxDuration && duration > limits.maxDuration) {
+    warnings.push({ kind: "duration", limit: limits.maxDuration, actual: duration });
+  }
+
+  if (limits.maxFileSize) {
+    const size = fileSizes
+      ? Math.max(...fileSizes)
+      : ((getVideoBitrate(config, getOutputDimensions(config), config.frameRate ?? 30) + AUDIO_BITRATE) * duration) / 8;
+    if (size > limits.maxFileSize) {
+      warnings.push({ kind: "fileSize", limit: limits.maxFileSize, actual: size });
+    }
+  }
+  return warnings;
+};
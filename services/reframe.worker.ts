@@ -0,0 +1,222 @@
+import { FocalKeyframe } from "../types";
+import type { ReframeWorkerRequest, ReframeWorkerResponse } from "./autoReframe";
+
+// Subject analysis for auto reframe. Receives small RGBA frames in time order and,
+// on "finish", replies with a smoothed focal path that cuts hard on scene changes.
+
+interface Sample {
+  time: number;
+  x: number;
+  y: number;
+  sceneStart: boolean;
+}
+
+// Share of the luma histogram that has to change between samples to count as a new shot
+const SCENE_CUT_THRESHOLD = 0.45;
+// Moving-average radius, in samples, applied within each shot
+const SMOOTHING_RADIUS = 3;
+// Largest deviation (normalised) tolerated when thinning samples down to keyframes
+const SIMPLIFY_TOLERANCE = 0.02;
+// Pixels that changed by less than this between samples are treated as noise
+const MOTION_FLOOR = 24;
+// Gap between the outgoing and incoming keyframe at a cut, short enough to read as a jump
+const CUT_GAP = 1 / 60;
+
+const samples: Sample[] = [];
+let previousLuma: Uint8Array | null = null;
+let previousHistogram: Float32Array | null = null;
+// Frames are analysed one at a time; face detection is async so chain the work
+let pending: Promise<void> = Promise.resolve();
+// Set once analysis has failed and the main thread was told; later frames are ignored
+let failed = false;
+
+// The Shape Detection API's face detector, which only some browsers ship and the DOM types leave out
+interface DetectedFace {
+  boundingBox: DOMRectReadOnly;
+}
+interface FaceDetector {
+  detect(image: ImageBitmapSource): Promise<DetectedFace[]>;
+}
+declare const FaceDetector: new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => FaceDetector;
+
+const faceDetector = "FaceDetector" in self
+  ? new FaceDetector({ fastMode: true, maxDetectedFaces: 4 })
+  : null;
+
+const toLuma = (rgba: Uint8ClampedArray): Uint8Array => {
+  const luma = new Uint8Array(rgba.length / 4);
+  for (let i = 0; i < luma.length; i++) {
+    const p = i * 4;
+    luma[i] = (rgba[p] * 77 + rgba[p + 1] * 150 + rgba[p + 2] * 29) >> 8;
+  }
+  return luma;
+};
+
+const toHistogram = (luma: Uint8Array): Float32Array => {
+  const histogram = new Float32Array(32);
+  for (let i = 0; i < luma.length; i++) histogram[luma[i] >> 3]++;
+  for (let i = 0; i < histogram.length; i++) histogram[i] /= luma.length;
+  return histogram;
+};
+
+// Fraction of the histogram mass that moved, 0 (identical) to 1 (disjoint)
+const histogramDistance = (a: Float32Array, b: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i]);
+  return sum / 2;
+};
+
+const isSkinTone = (r: number, g: number, b: number) => {
+  const cb = 128 - 0.169 * r - 0.331 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.419 * g - 0.081 * b;
+  return cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173;
+};
+
+// Centre of the largest faces, weighted by area
+const detectFaces = async (image: ImageData): Promise<{ x: number; y: number } | null> => {
+  if (!faceDetector) return null;
+  try {
+    const faces = await faceDetector.detect(image);
+    if (faces.length === 0) return null;
+
+    let weight = 0, x = 0, y = 0;
+    for (const { boundingBox: box } of faces) {
+      const area = box.width * box.height;
+      weight += area;
+      x += (box.x + box.width / 2) * area;
+      y += (box.y + box.height / 2) * area;
+    }
+    return { x: x / weight / image.width, y: y / weight / image.height };
+  } catch {
+    return null;
+  }
+};
+
+// Centroid of moving, skin-toned pixels; null when nothing stands out
+const findSalientPoint = (image: ImageData, luma: Uint8Array, previous: Uint8Array | null) => {
+  const { width, height, data } = image;
+  let weight = 0, x = 0, y = 0;
+
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      const i = row * width + col;
+      const p = i * 4;
+      const motion = previous ? Math.max(0, Math.abs(luma[i] - previous[i]) - MOTION_FLOOR) / 255 : 0;
+      const skin = isSkinTone(data[p], data[p + 1], data[p + 2]) ? 0.5 : 0;
+      const w = motion + skin;
+      if (w === 0) continue;
+      weight += w;
+      x += col * w;
+      y += row * w;
+    }
+  }
+
+  // Ignore a handful of stray pixels
+  if (weight < width * height * 0.002) return null;
+  return { x: x / weight / width, y: y / weight / height };
+};
+
+const analyseFrame = async (time: number, image: ImageData) => {
+  const luma = toLuma(image.data);
+  const histogram = toHistogram(luma);
+  const sceneStart = !previousHistogram || histogramDistance(histogram, previousHistogram) > SCENE_CUT_THRESHOLD;
+
+  const point = (await detectFaces(image))
+    ?? findSalientPoint(image, luma, sceneStart ? null : previousLuma);
+
+  // Without a subject, hold the previous position (or the centre on a fresh shot)
+  const last = samples[samples.length - 1];
+  const fallback = !sceneStart && last ? last : { x: 0.5, y: 0.5 };
+  samples.push({ time, sceneStart, ...(point ?? fallback) });
+
+  previousLuma = luma;
+  previousHistogram = histogram;
+};
+
+const smooth = (shot: Sample[]): Sample[] =>
+  shot.map((sample, i) => {
+    const from = Math.max(0, i - SMOOTHING_RADIUS);
+    const to = Math.min(shot.length - 1, i + SMOOTHING_RADIUS);
+    let x = 0, y = 0;
+    for (let j = from; j <= to; j++) {
+      x += shot[j].x;
+      y += shot[j].y;
+    }
+    const count = to - from + 1;
+    return { ...sample, x: x / count, y: y / count };
+  });
+
+// Ramer-Douglas-Peucker over time: keep the samples the path can't be interpolated through
+const simplify = (shot: Sample[]): Sample[] => {
+  if (shot.length <= 2) return shot;
+
+  const first = shot[0];
+  const last = shot[shot.length - 1];
+  let worst = 0;
+  let worstIndex = 0;
+  for (let i = 1; i < shot.length - 1; i++) {
+    const t = (shot[i].time - first.time) / (last.time - first.time);
+    const deviation = Math.max(
+      Math.abs(shot[i].x - (first.x + (last.x - first.x) * t)),
+      Math.abs(shot[i].y - (first.y + (last.y - first.y) * t))
+    );
+    if (deviation > worst) {
+      worst = deviation;
+      worstIndex = i;
+    }
+  }
+
+  if (worst <= SIMPLIFY_TOLERANCE) return [first, last];
+  return [...simplify(shot.slice(0, worstIndex + 1)).slice(0, -1), ...simplify(shot.slice(worstIndex))];
+};
+
+const buildPath = (halfX: number, halfY: number): FocalKeyframe[] => {
+  const shots: Sample[][] = [];
+  for (const sample of samples) {
+    if (sample.sceneStart || shots.length === 0) shots.push([]);
+    shots[shots.length - 1].push(sample);
+  }
+
+  const clampX = (x: number) => Math.min(1 - halfX, Math.max(halfX, x));
+  const clampY = (y: number) => Math.min(1 - halfY, Math.max(halfY, y));
+  const path: FocalKeyframe[] = [];
+
+  shots.forEach((shot, i) => {
+    const keyframes = simplify(smooth(shot)).map(({ time, x, y }) => ({ time, x: clampX(x), y: clampY(y) }));
+
+    // Hold this shot's framing right up to the next cut
+    const next = shots[i + 1];
+    const end = keyframes[keyframes.length - 1];
+    if (next && next[0].time - CUT_GAP > end.time) {
+      keyframes.push({ ...end, time: next[0].time - CUT_GAP });
+    }
+    path.push(...keyframes);
+  });
+
+  return path;
+};
+
+const fail = (error: unknown) => {
+  if (failed) return;
+  failed = true;
+  const response: ReframeWorkerResponse = { type: "error", message: error instanceof Error ? error.message : String(error) };
+  self.postMessage(response);
+};
+
+self.onmessage = (event: MessageEvent<ReframeWorkerRequest>) => {
+  const message = event.data;
+
+  if (message.type === "frame") {
+    const image = new ImageData(new Uint8ClampedArray(message.data), message.width, message.height);
+    pending = pending
+      .then(() => failed ? undefined : analyseFrame(message.time, image))
+      .catch(fail);
+    return;
+  }
+
+  pending.then(() => {
+    if (failed) return;
+    const response: ReframeWorkerResponse = { type: "result", keyframes: buildPath(message.halfX, message.halfY) };
+    self.postMessage(response);
+  }).catch(fail);
+};
@@ -0,0 +1,106 @@
+import { VideoConfig } from "../types";
+import { BackgroundImage, composeFrame } from "./compositor";
+import { createExportControl, ExportCancelledError, throttleProgress } from "./exportControl";
+import { getVideoBitrate, getVideoCodecCandidates } from "./exportSettings";
+import { getOutputDimensions } from "./exportTargets";
+import { registerOverlayImages } from "./overlays";
+import { exportWithWebCodecs, PcmAudio, WebCodecsUnsupportedError } from "./webCodecsExporter";
+import type { RenderWorkerRequest, RenderWorkerResponse, TransferredAudio } from "./renderWorker";
+
+const control = createExportControl();
+
+// Set by an "attach" request: the transferred output canvases of a realtime recording
+let recording: {
+  configs: VideoConfig[];
+  contexts: (OffscreenCanvasRenderingContext2D | null)[];
+  backgroundImage: BackgroundImage | null;
+} | null = null;
+
+const post = (response: RenderWorkerResponse) => self.postMessage(response);
+
+const toPcmAudio = ({ sampleRate, channels }: TransferredAudio): PcmAudio => ({
+  sampleRate,
+  numberOfChannels: channels.length,
+  length: channels[0]?.length ?? 0,
+  getChannelData: (channel) => channels[channel],
+});
+
+const runExport = async (request: Extract<RenderWorkerRequest, { type: "export" }>) => {
+  const { file, format, configs, audio, backgroundImage } = request;
+
+  try {
+    const blobs = await exportWithWebCodecs({
+      file,
+      format,
+      // Every output shares the source range of the first config
+      trimStart: configs[0].trimStart,
+      trimEnd: configs[0].trimEnd,
+      audio: audio && toPcmAudio(audio),
+      control,
+      outputs: configs.map(config => {
+        const outputSize = getOutputDimensions(config);
+        return {
+          outputSize,
+          renderFrame: (ctx, frame) =>
+            composeFrame(ctx, frame, frame.displayWidth, frame.displayHeight, config, backgroundImage, frame.timestamp / 1e6),
+          frameRate: config.frameRate ?? undefined,
+          videoCodecs: getVideoCodecCandidates(format, config.videoCodec),
+          getVideoBitrate: (frameRate) => getVideoBitrate(config, outputSize, frameRate),
+        };
+      }),
+      onProgress: throttleProgress(percent => post({ type: "progress", percent })),
+    });
+    post({ type: "done", blobs });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    if (e instanceof ExportCancelledError) {
+      post({ type: "error", reason: "cancelled", message });
+    } else if (e instanceof WebCodecsUnsupportedError) {
+      post({ type: "error", reason: "unsupported", message });
+    } else {
+      console.error("WebCodecs export failed:", e);
+      post({ type: "error", reason: "failed", message: "Export failed. Try a different browser or file." });
+    }
+  }
+};
+
+self.onmessage = (event: MessageEvent<RenderWorkerRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case "export":
+      registerOverlayImages(request.overlayImages);
+      runExport(request);
+      break;
+
+    case "attach":
+      registerOverlayImages(request.overlayImages);
+      recording = {
+        configs: request.configs,
+        contexts: request.canvases.map(canvas => canvas.getContext("2d", { alpha: false })),
+        backgroundImage: request.backgroundImage,
+      };
+      break;
+
+    case "frame": {
+      const { frame, time } = request;
+      const target = recording;
+      try {
+        target?.configs.forEach((config, i) => {
+          const ctx = target.contexts[i];
+          if (ctx) composeFrame(ctx, frame, frame.displayWidth, frame.displayHeight, config, target.backgroundImage, time);
+        });
+      } finally {
+        frame.close();
+        post({ type: "composed" });
+      }
+      break;
+    }
+
+    case "control":
+      if (request.state === "paused") control.pause();
+      else if (request.state === "running") control.resume();
+      else control.cancel();
+      break;
+  }
+};
@@ -0,0 +1,164 @@
+import { OutputFormat, VideoConfig } from "../types";
+import type { BackgroundImage } from "./compositor";
+import type { BackgroundClip } from "./backgrounds";
+import { ExportCancelledError, ExportControl, ExportControlState } from "./exportControl";
+import { getOverlayBitmaps } from "./overlays";
+import { WebCodecsUnsupportedError } from "./webCodecsExporter";
+
+// Audio channels copied out of an AudioBuffer, which can't be posted to a worker
+export interface TransferredAudio {
+  sampleRate: number;
+  channels: Float32Array<ArrayBuffer>[];
+}
+
+interface RenderAssets {
+  configs: VideoConfig[];
+  backgroundImage: ImageBitmap | BackgroundClip | null;
+  overlayImages: Map<string, ImageBitmap>;
+}
+
+export type RenderWorkerRequest =
+  | ({ type: "export"; file: File; format: OutputFormat; audio: TransferredAudio | null } & RenderAssets)
+  | ({ type: "attach"; canvases: OffscreenCanvas[] } & RenderAssets)
+  | { type: "frame"; frame: VideoFrame; time: number }
+  | { type: "control"; state: ExportControlState };
+
+export type RenderWorkerResponse =
+  | { type: "progress"; percent: number }
+  | { type: "composed" }
+  | { type: "done"; blobs: Blob[] }
+  | { type: "error"; reason: "unsupported" | "cancelled" | "failed"; message: string };
+
+// Frames the recorder path lets queue up before it skips some to stay realtime
+const MAX_PENDING_FRAMES = 2;
+
+const createRenderWorker = () => {
+  const worker = new Worker(new URL("./render.worker.ts", import.meta.url), { type: "module" });
+  const send = (request: RenderWorkerRequest, transfer: Transferable[] = []) => worker.postMessage(request, transfer);
+  return { worker, send };
+};
+
+const prepareAssets = async (
+  configs: VideoConfig[],
+  backgroundImage: BackgroundImage | null
+): Promise<{ assets: RenderAssets; transfer: Transferable[] }> => {
+  const overlayImages = await getOverlayBitmaps(configs.flatMap(config => config.overlays));
+  // Copies, since transferring detaches them and the page keeps using its own for the preview
+  let background: ImageBitmap | BackgroundClip | null = null;
+  let backgroundBitmaps: ImageBitmap[] = [];
+  if (backgroundImage && "frames" in backgroundImage) {
+    backgroundBitmaps = await Promise.all(backgroundImage.frames.map(frame => createImageBitmap(frame)));
+    background = { frames: backgroundBitmaps, frameRate: backgroundImage.frameRate };
+  } else if (backgroundImage) {
+    background = await createImageBitmap(backgroundImage);
+    backgroundBitmaps = [background];
+  }
+  return {
+    assets: { configs, backgroundImage: background, overlayImages },
+    transfer: [...overlayImages.values(), ...backgroundBitmaps],
+  };
+};
+
+export interface WorkerExportOptions {
+  file: File;
+  format: OutputFormat;
+  configs: VideoConfig[];
+  audio: AudioBuffer | null;
+  backgroundImage: BackgroundImage | null;
+  control?: ExportControl;
+  onProgress?: (percent: number) => void;
+}
+
+/**
+ * Runs the WebCodecs export (decode, compose, encode) in a worker so the page stays responsive.
+ * Rejects with WebCodecsUnsupportedError when the caller should fall back to recording.
+ */
+export const exportInWorker = async ({
+  file,
+  format,
+  configs,
+  audio,
+  backgroundImage,
+  control,
+  onProgress,
+}: WorkerExportOptions): Promise<Blob[]> => {
+  const { assets, transfer } = await prepareAssets(configs, backgroundImage);
+  const transferredAudio = audio && {
+    sampleRate: audio.sampleRate,
+    channels: Array.from({ length: audio.numberOfChannels }, (_, c) => audio.getChannelData(c).slice()),
+  };
+
+  const { worker, send } = createRenderWorker();
+  const unsubscribe = control?.subscribe((state) => send({ type: "control", state }));
+
+  try {
+    return await new Promise<Blob[]>((resolve, reject) => {
+      worker.onmessage = (event: MessageEvent<RenderWorkerResponse>) => {
+        const response = event.data;
+        if (response.type === "progress") onProgress?.(response.percent);
+        else if (response.type === "done") resolve(response.blobs);
+        else if (response.type === "error") {
+          if (response.reason === "cancelled") reject(new ExportCancelledError());
+          else if (response.reason === "unsupported") reject(new WebCodecsUnsupportedError(response.message));
+          else reject(new Error(response.message));
+        }
+      };
+      worker.onerror = (e) => reject(new WebCodecsUnsupportedError(`Render worker failed: ${e.message}`));
+
+      send(
+        { type: "export", file, format, audio: transferredAudio, ...assets },
+        [...transfer, ...(transferredAudio?.channels.map(channel => channel.buffer) ?? [])]
+      );
+
+      // The job may have been paused before the worker existed
+      const state = control?.getState();
+      if (state && state !== "running") send({ type: "control", state });
+    });
+  } finally {
+    unsubscribe?.();
+    worker.terminate();
+  }
+};
+
+export interface FrameCompositor {
+  // Hands the element's current picture to the worker; skipped if the worker is behind
+  compose: (source: HTMLVideoElement, time: number) => void;
+  dispose: () => void;
+}
+
+export const canComposeInWorker = (): boolean =>
+  typeof Worker !== "undefined" &&
+  typeof VideoFrame !== "undefined" &&
+  typeof OffscreenCanvas !== "undefined" &&
+  "transferControlToOffscreen" in HTMLCanvasElement.prototype;
+
+/**
+ * Transfers `canvases` to a worker that composes each output there from VideoFrames of the
+ * playing video. The canvases keep feeding any captureStream() taken from them.
+ */
+export const createFrameCompositor = async (
+  canvases: HTMLCanvasElement[],
+  configs: VideoConfig[],
+  backgroundImage: BackgroundImage | null
+): Promise<FrameCompositor> => {
+  const { assets, transfer } = await prepareAssets(configs, backgroundImage);
+  const offscreen = canvases.map(canvas => canvas.transferControlToOffscreen());
+
+  const { worker, send } = createRenderWorker();
+  let pending = 0;
+  worker.onmessage = (event: MessageEvent<RenderWorkerResponse>) => {
+    if (event.data.type === "composed") pending--;
+  };
+
+  send({ type: "attach", canvases: offscreen, ...assets }, [...offscreen, ...transfer]);
+
+  return {
+    compose: (source, time) => {
+      if (pending >= MAX_PENDING_FRAMES) return;
+      const frame = new VideoFrame(source, { timestamp: Math.round(time * 1e6) });
+      pending++;
+      send({ type: "frame", frame, time }, [frame]);
+    },
+    dispose: () => worker.terminate(),
+  };
+};
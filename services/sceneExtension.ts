@@ -0,0 +1,63 @@
+import { Dimensions, Rect } from "../types";
+import { canvasToBlob } from "./frameSampling";
+import { fitRect, getSourceRect } from "./layout";
+
+// Frames sent for outpainting are capped at this long side; the model works at about this size anyway
+const FRAME_MAX_SIDE = 1024;
+const GUIDE_BLUR = 24;
+
+// Plates are cached per source file (by name, size and date, as File has no stable id) and ratio
+export const getScenePlateKey = (file: File, aspectRatio: string) =>
+  `${file.name}:${file.size}:${file.lastModified}:${aspectRatio}`;
+
+/**
+ * Grabs the `sourceCrop` of the video's current frame (all of it for null) as a JPEG.
+ */
+export const captureFrame = async (video: HTMLVideoElement, sourceCrop: Rect | null = null): Promise<Blob> => {
+  const crop = getSourceRect({ width: video.videoWidth, height: video.videoHeight }, sourceCrop);
+  const scale = Math.min(1, FRAME_MAX_SIDE / Math.max(crop.width, crop.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(crop.width * scale);
+  canvas.height = Math.round(crop.height * scale);
+  canvas.getContext("2d")!.drawImage(video, crop.x, crop.y, crop.width, crop.height, 0, 0, canvas.width, canvas.height);
+  return canvasToBlob(canvas, "image/jpeg", 0.92);
+};
+
+// Output size for a "W:H" ratio at `longSide` pixels
+export const getRatioSize = (aspectRatio: string, longSide: number): Dimensions => {
+  const [w, h] = aspectRatio.split(":").map(Number);
+  const scale = longSide / Math.max(w, h);
+  return { width: Math.round(w * scale), height: Math.round(h * scale) };
+};
+
+/**
+ * Draws the frame contained in the centre of a `size` canvas, over a blurred cover of itself,
+ * as a starting point for outpainting. Returns the canvas and where the frame sits.
+ */
+export const drawSceneGuide = async (frame: Blob, size: Dimensions): Promise<{ canvas: HTMLCanvasElement; rect: Rect }> => {
+  const bitmap = await createImageBitmap(frame);
+  const canvas = document.createElement("canvas");
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const ctx = canvas.getContext("2d")!;
+
+  const cover = fitRect(bitmap, size, "cover");
+  ctx.filter = `blur(${GUIDE_BLUR}px)`;
+  ctx.drawImage(bitmap, cover.x, cover.y, cover.width, cover.height);
+  ctx.filter = "none";
+
+  const rect = fitRect(bitmap, size, "contain");
+  ctx.drawImage(bitmap, rect.x, rect.y, rect.width, rect.height);
+  bitmap.close();
+
+  return { canvas, rect };
+};
+
+// Base64 payload of a blob, without the data URL prefix
+export const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(",")[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
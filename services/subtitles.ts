@@ -0,0 +1,144 @@
+import { Dimensions, Rect, SubtitleCue, SubtitleStyle } from "../types";
+import type { CompositionContext } from "./compositor";
+
+export const DEFAULT_SUBTITLE_STYLE: SubtitleStyle = {
+  fontFamily: "Inter, Arial, sans-serif",
+  fontSize: 56,
+  color: "#ffffff",
+  outlineColor: "#000000",
+  outlineWidth: 3,
+  showBox: false,
+  boxColor: "#000000",
+  boxOpacity: 0.6,
+  position: 0.85,
+};
+
+// Captions never run wider than this share of the frame
+const MAX_LINE_WIDTH = 0.9;
+
+// "01:02:03,456" (SRT) or "02:03.456" (WebVTT, hours optional) -> seconds
+const TIMESTAMP = /(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{1,3})/;
+
+const parseTimestamp = (value: string): number | null => {
+  const match = TIMESTAMP.exec(value);
+  if (!match) return null;
+  const [, hours, minutes, seconds, fraction] = match;
+  return Number(hours || 0) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(fraction.padEnd(3, "0")) / 1000;
+};
+
+/**
+ * Parses SRT or WebVTT into cues sorted by start time. Blocks without a timing line
+ * (WEBVTT header, NOTE, STYLE, stray numbers) are skipped; markup tags are stripped.
+ */
+export const parseSubtitles = (source: string): SubtitleCue[] => {
+  const blocks = source.replace(/\r\n?/g, "\n").split(/\n{2,}/);
+  const cues: SubtitleCue[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex(line => line.includes("-->"));
+    if (timingIndex === -1) continue;
+
+    const [startPart, endPart] = lines[timingIndex].split("-->");
+    const start = parseTimestamp(startPart);
+    const end = parseTimestamp(endPart);
+    if (start === null || end === null || end <= start) continue;
+
+    const text = lines.slice(timingIndex + 1)
+      .map(line => line.replace(/<[^>]+>/g, "").replace(/\{\\[^}]*\}/g, "").trim())
+      .filter(Boolean)
+      .join("\n");
+    if (text) cues.push({ start, end, text });
+  }
+
+  return cues.sort((a, b) => a.start - b.start);
+};
+
+const hexToRgba = (hex: string, alpha: number) => {
+  const value = parseInt(hex.slice(1), 16);
+  return `rgba(${(value >> 16) & 255},${(value >> 8) & 255},${value & 255},${alpha})`;
+};
+
+// Greedy word wrap of every cue line to maxWidth
+const wrapLines = (ctx: CompositionContext, text: string, maxWidth: number): string[] => {
+  const wrapped: string[] = [];
+  for (const paragraph of text.split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && ctx.measureText(candidate).width > maxWidth) {
+        wrapped.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    if (line) wrapped.push(line);
+  }
+  return wrapped;
+};
+
+/**
+ * Draws the cues active at `time`. When `videoRect` leaves padding above or below the
+ * video, captions that would overlap it are moved into the padding on their side if they fit.
+ */
+export const drawSubtitles = (
+  ctx: CompositionContext,
+  cues: SubtitleCue[],
+  style: SubtitleStyle,
+  time: number,
+  frame: Dimensions,
+  videoRect: Rect | null
+) => {
+  const text = cues
+    .filter(cue => time >= cue.start && time < cue.end)
+    .map(cue => cue.text)
+    .join("\n");
+  if (!text) return;
+
+  const unit = Math.min(frame.width, frame.height) / 1080;
+  const fontSize = style.fontSize * unit;
+  const lineHeight = fontSize * 1.25;
+  const padding = fontSize * 0.3;
+
+  ctx.font = `bold ${fontSize}px ${style.fontFamily}`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.lineJoin = "round";
+
+  const lines = wrapLines(ctx, text, frame.width * MAX_LINE_WIDTH - padding * 2);
+  const blockHeight = lines.length * lineHeight + padding * 2;
+  let top = Math.min(frame.height - blockHeight, Math.max(0, style.position * frame.height - blockHeight / 2));
+
+  if (videoRect) {
+    const videoBottom = videoRect.y + videoRect.height;
+    const overlapsVideo = top < videoBottom && top + blockHeight > videoRect.y;
+    const spaceBelow = frame.height - videoBottom;
+
+    if (overlapsVideo && style.position >= 0.5 && spaceBelow >= blockHeight) {
+      top = videoBottom + (spaceBelow - blockHeight) / 2;
+    } else if (overlapsVideo && style.position < 0.5 && videoRect.y >= blockHeight) {
+      top = (videoRect.y - blockHeight) / 2;
+    }
+  }
+
+  const centreX = frame.width / 2;
+  lines.forEach((line, i) => {
+    const y = top + padding + lineHeight * (i + 0.5);
+
+    if (style.showBox) {
+      const width = ctx.measureText(line).width + padding * 2;
+      ctx.fillStyle = hexToRgba(style.boxColor, style.boxOpacity);
+      ctx.fillRect(centreX - width / 2, y - lineHeight / 2, width, lineHeight);
+    }
+
+    if (style.outlineWidth > 0) {
+      ctx.strokeStyle = style.outlineColor;
+      ctx.lineWidth = style.outlineWidth * unit * 2;
+      ctx.strokeText(line, centreX, y);
+    }
+
+    ctx.fillStyle = style.color;
+    ctx.fillText(line, centreX, y);
+  });
+};
@@ -0,0 +1,168 @@
+import {
+  AspectRatio, AudioSettings, BACKGROUND_FITS, BackgroundType, ColorAdjustments, ExportQuality, OutputFormat, OverlayLayer,
+  PresetLimits, ScaleMode, VideoCodec, VideoConfig,
+} from "../types";
+import { DEFAULT_AUDIO_SETTINGS } from "./audioMix";
+import { DEFAULT_BACKGROUND_GRADIENT } from "./backgrounds";
+import { DEFAULT_COLOR_ADJUSTMENTS } from "./colorGrading";
+import { DEFAULT_SUBTITLE_STYLE } from "./subtitles";
+
+// What the editor starts with and resets to; the CLI fills left-out fields from it
+export const DEFAULT_VIDEO_CONFIG: VideoConfig = {
+  aspectRatio: AspectRatio.PORTRAIT,
+  scaleMode: ScaleMode.CONTAIN,
+  backgroundColor: "#000000",
+  autoBackgroundColor: false,
+  backgroundType: BackgroundType.COLOR,
+  backgroundBlur: 40,
+  backgroundDim: 0.3,
+  backgroundZoom: 1.1,
+  backgroundGradient: DEFAULT_BACKGROUND_GRADIENT,
+  backgroundMedia: null,
+  backgroundFit: "cover",
+  aiPrompt: "Cosmic nebula with purple and blue hues",
+  outputFormat: OutputFormat.MP4,
+  frameRate: null,
+  quality: ExportQuality.HIGH,
+  videoBitrate: 8000000,
+  videoCodec: null,
+  resolutionScale: 1,
+  sourceCrop: null,
+  focalPath: [],
+  subtitles: [],
+  subtitleStyle: DEFAULT_SUBTITLE_STYLE,
+  overlays: [],
+  audio: DEFAULT_AUDIO_SETTINGS,
+  color: DEFAULT_COLOR_ADJUSTMENTS,
+  lut: null,
+  customWidth: 1920,
+  customHeight: 1080,
+  maintainAspectRatio: true,
+};
+
+const ENUM_FIELDS: [keyof VideoConfig, object][] = [
+  ["aspectRatio", AspectRatio],
+  ["scaleMode", ScaleMode],
+  ["backgroundType", BackgroundType],
+  ["backgroundFit", BACKGROUND_FITS],
+  ["outputFormat", OutputFormat],
+  ["quality", ExportQuality],
+  ["videoCodec", VideoCodec],
+];
+
+// Smallest accepted value of each numeric field
+const NUMBER_FIELDS: [keyof VideoConfig, number][] = [
+  ["backgroundBlur", 0],
+  ["backgroundDim", 0],
+  ["backgroundZoom", 1],
+  ["frameRate", 1],
+  ["videoBitrate", 1],
+  ["resolutionScale", 0.1],
+  ["customWidth", 2],
+  ["customHeight", 2],
+];
+
+// Null keeps the source's frame rate or picks the first supported codec
+const NULLABLE_FIELDS: (keyof VideoConfig)[] = ["frameRate", "videoCodec"];
+
+type FieldType = "number" | "boolean" | "string";
+
+// Audio and color settings are merged over the current ones, so any of their fields may be left out
+const AUDIO_FIELDS: Record<Exclude<keyof AudioSettings, "music">, FieldType> = {
+  originalGain: "number",
+  muteOriginal: "boolean",
+  musicGain: "number",
+  ducking: "boolean",
+  fadeIn: "number",
+  fadeOut: "number",
+};
+
+const COLOR_FIELDS: Record<keyof ColorAdjustments, FieldType> = {
+  exposure: "number",
+  contrast: "number",
+  saturation: "number",
+  temperature: "number",
+  vignette: "number",
+  sharpen: "number",
+};
+
+const LIMIT_FIELDS: Record<keyof PresetLimits, FieldType> = {
+  maxDuration: "number",
+  maxFileSize: "number",
+};
+
+// Overlay layers are drawn as they are, so these fields are required
+const LAYER_FIELDS: Record<string, FieldType> = {
+  id: "string",
+  x: "number",
+  y: "number",
+  scale: "number",
+  opacity: "number",
+  start: "number",
+};
+
+const LAYER_KIND_FIELDS: Record<OverlayLayer["kind"], Record<string, FieldType>> = {
+  image: { src: "string" },
+  text: { text: "string", color: "string", fontFamily: "string" },
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+// Names the first field of `value` that doesn't have the type `fields` gives it
+const findInvalidField = (name: string, value: unknown, fields: Record<string, FieldType>, required: boolean): string | null => {
+  if (!isObject(value)) return `${name} is not an object.`;
+  for (const [field, type] of Object.entries(fields)) {
+    const fieldValue = value[field];
+    if (fieldValue === undefined && !required) continue;
+    if (typeof fieldValue !== type || (type === "number" && !Number.isFinite(fieldValue))) {
+      return `${name}.${field} is not a ${type}.`;
+    }
+  }
+  return null;
+};
+
+const findInvalidLayer = (layer: unknown, i: number): string | null => {
+  const name = `overlays[${i}]`;
+  if (!isObject(layer)) return `${name} is not an object.`;
+  if (layer.kind !== "image" && layer.kind !== "text") return `"${layer.kind}" is not a valid ${name}.kind (image, text).`;
+  if (layer.end !== undefined && (typeof layer.end !== "number" || !Number.isFinite(layer.end))) return `${name}.end is not a number.`;
+  return findInvalidField(name, layer, { ...LAYER_FIELDS, ...LAYER_KIND_FIELDS[layer.kind] }, true);
+};
+
+/**
+ * Checks the enum, numeric and nested fields of a config read from a file. Fields left out pass,
+ * as callers fill them from defaults. Returns what is wrong, or null when nothing is.
+ */
+export const findInvalidSetting = (config: Partial<VideoConfig>): string | null => {
+  for (const [field, values] of ENUM_FIELDS) {
+    const value = config[field];
+    if (value === undefined || (NULLABLE_FIELDS.includes(field) && value === null)) continue;
+    if (!Object.values(values).includes(value)) {
+      return `"${value}" is not a valid ${field} (${Object.values(values).join(", ")}).`;
+    }
+  }
+  for (const [field, min] of NUMBER_FIELDS) {
+    const value = config[field];
+    if (value === undefined || (NULLABLE_FIELDS.includes(field) && value === null)) continue;
+    if (typeof value !== "number" || !Number.isFinite(value) || value < min) {
+      return `"${value}" is not a valid ${field} (a number of at least ${min}).`;
+    }
+  }
+
+  const { audio, color, limits, overlays } = config;
+  const problem =
+    (audio !== undefined && findInvalidField("audio", audio, AUDIO_FIELDS, false)) ||
+    (color !== undefined && findInvalidField("color", color, COLOR_FIELDS, false)) ||
+    (limits !== undefined && findInvalidField("limits", limits, LIMIT_FIELDS, false));
+  if (problem) return problem;
+
+  if (overlays !== undefined) {
+    if (!Array.isArray(overlays)) return "overlays is not a list.";
+    for (const [i, layer] of overlays.entries()) {
+      const layerProblem = findInvalidLayer(layer, i);
+      if (layerProblem) return layerProblem;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,565 @@
+import { createFile, DataStream, Endianness, MP4BoxBuffer } from "mp4box";
+import type { Box, ES_Descriptor, ISOFile, Movie, Sample, SampleEntry, VisualSampleEntry } from "mp4box";
+import { Dimensions, OutputFormat } from "../types";
+import { ContainerMuxer, CodecCandidate, createContainerMuxer, OUTPUT_FORMATS, VideoCodecCandidate } from "./containerMuxer";
+import type { ExportControl } from "./exportControl";
+
+// Thrown when the browser or the input file can't go through the WebCodecs
+// pipeline. Callers should fall back to the MediaRecorder export.
+export class WebCodecsUnsupportedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WebCodecsUnsupportedError";
+  }
+}
+
+export type FrameRenderer = (
+  ctx: OffscreenCanvasRenderingContext2D,
+  frame: VideoFrame
+) => void;
+
+// The parts of an AudioBuffer the encoder reads; workers have no AudioBuffer, so they pass plain channel data
+export type PcmAudio = Pick<AudioBuffer, "sampleRate" | "numberOfChannels" | "length" | "getChannelData">;
+
+export interface ExportOutput {
+  outputSize: Dimensions;
+  renderFrame: FrameRenderer;
+  // Constant output rate; undefined keeps the source frames and their timestamps
+  frameRate?: number;
+  // Encoders to try, in order of preference
+  videoCodecs: VideoCodecCandidate[];
+  // Bitrate for the frame rate the output ends up with
+  getVideoBitrate: (frameRate: number) => number;
+}
+
+export interface WebCodecsExportOptions {
+  file: File;
+  format: OutputFormat;
+  outputs: ExportOutput[];
+  // Source range to export, in seconds
+  trimStart?: number;
+  trimEnd?: number;
+  // Final audio for the exported range (see renderAudioMix), shared by all outputs
+  audio: PcmAudio | null;
+  // Decoding waits while paused and stops with ExportCancelledError when cancelled
+  control?: ExportControl;
+  onProgress?: (percent: number) => void;
+}
+
+interface DemuxedVideo {
+  decoderConfig: VideoDecoderConfig;
+  // The sample table only; the data is read from the file while decoding
+  samples: Sample[];
+  durationUs: number;
+  frameRate: number;
+  // Clockwise turn (0, 90, 180 or 270 degrees) the track header asks for when displaying
+  rotation: number;
+}
+
+const READ_CHUNK_SIZE = 8 * 1024 * 1024;
+const MAX_QUEUE_SIZE = 8;
+const AUDIO_CHUNK_FRAMES = 4800;
+
+export const isWebCodecsSupported = (): boolean =>
+  typeof VideoDecoder !== "undefined" &&
+  typeof VideoEncoder !== "undefined" &&
+  typeof AudioEncoder !== "undefined" &&
+  typeof OffscreenCanvas !== "undefined";
+
+// Serialises the codec configuration box (avcC, hvcC, vpcC, av1C) that VideoDecoder expects as `description`
+const getCodecDescription = (entry: VisualSampleEntry): Uint8Array | undefined => {
+  const box: Box | undefined = entry.avcC || entry.hvcC || entry.vpcC || entry.av1C;
+  if (!box) return undefined;
+
+  const stream = new DataStream(undefined, 0, Endianness.BIG_ENDIAN);
+  box.write(stream);
+  return new Uint8Array(stream.buffer, 8); // Skip the box header
+};
+
+// MPEG-4 descriptor tags leading to AAC's AudioSpecificConfig, which AudioDecoder expects as `description`
+const DECODER_CONFIG_TAG = 4;
+const DECODER_SPECIFIC_INFO_TAG = 5;
+
+const getAudioDescription = (entry: SampleEntry): Uint8Array | undefined => {
+  const { esds } = entry as { esds?: { esd: ES_Descriptor } };
+  return esds?.esd.findDescriptor(DECODER_CONFIG_TAG)?.findDescriptor(DECODER_SPECIFIC_INFO_TAG)?.data;
+};
+
+// Reads the clockwise rotation from a track's 16.16 fixed-point display matrix
+const getRotation = (matrix: ArrayLike<number>): number => {
+  const degrees = Math.round((Math.atan2(matrix[1], matrix[0]) * 180) / Math.PI);
+  return (degrees + 360) % 360;
+};
+
+/**
+ * Reads the container's sample tables without keeping any media data: mp4box discards mdat
+ * contents and tells us where to continue, so the media itself is skipped rather than read.
+ */
+const readMovie = (file: File): Promise<{ isoFile: ISOFile; info: Movie }> => {
+  return new Promise((resolve, reject) => {
+    const isoFile = createFile();
+    let info: Movie | null = null;
+
+    isoFile.onError = (_module, message) => reject(new WebCodecsUnsupportedError(message));
+
+    isoFile.onReady = (movie) => {
+      info = movie;
+    };
+
+    // Feed the file to mp4box in slices instead of one huge ArrayBuffer, jumping over the
+    // media data wherever it asks to continue further on
+    const readFrom = async (offset: number) => {
+      try {
+        while (offset < file.size) {
+          const slice = await file.slice(offset, offset + READ_CHUNK_SIZE).arrayBuffer();
+          const next = isoFile.appendBuffer(MP4BoxBuffer.fromArrayBuffer(slice, offset));
+          offset = Math.max(offset + slice.byteLength, next ?? 0);
+        }
+        isoFile.flush();
+        if (info) resolve({ isoFile, info });
+        else reject(new WebCodecsUnsupportedError("Container is not MP4/MOV."));
+      } catch (e) {
+        reject(new WebCodecsUnsupportedError(`Could not demux file: ${e}`));
+      }
+    };
+
+    readFrom(0);
+  });
+};
+
+const demuxVideo = async (file: File): Promise<DemuxedVideo> => {
+  const { isoFile, info } = await readMovie(file);
+  const track = info.videoTracks[0];
+  if (!track) throw new WebCodecsUnsupportedError("No video track found in file.");
+
+  const trak = isoFile.getTrackById(track.id);
+  const samples = trak.samples;
+  if (samples.length === 0) throw new WebCodecsUnsupportedError("No video samples could be extracted.");
+  const rotation = getRotation(track.matrix);
+  if (rotation % 90 !== 0) throw new WebCodecsUnsupportedError(`Cannot rotate video by ${rotation} degrees.`);
+
+  const entry = trak.mdia.minf.stbl.stsd.entries[0] as VisualSampleEntry;
+  const durationUs = (track.duration / track.timescale) * 1e6 ||
+    (info.duration / info.timescale) * 1e6;
+
+  return {
+    decoderConfig: {
+      codec: track.codec.startsWith("vp08") ? "vp8" : track.codec,
+      codedWidth: track.video?.width ?? track.track_width,
+      codedHeight: track.video?.height ?? track.track_height,
+      description: getCodecDescription(entry),
+    },
+    samples,
+    durationUs,
+    frameRate: Math.round(samples.length / (durationUs / 1e6)) || 30,
+    rotation,
+  };
+};
+
+// Returns the data of each sample in turn, reading the file in large slices so runs of
+// consecutive samples cost one read and only one slice is held at a time
+const createSampleReader = (file: File) => {
+  let chunkStart = 0;
+  let chunk = new Uint8Array(0);
+  return async (sample: Sample): Promise<Uint8Array> => {
+    const end = sample.offset + sample.size;
+    if (sample.offset < chunkStart || end > chunkStart + chunk.byteLength) {
+      chunkStart = sample.offset;
+      chunk = new Uint8Array(await file.slice(chunkStart, Math.max(end, chunkStart + READ_CHUNK_SIZE)).arrayBuffer());
+    }
+    return chunk.subarray(sample.offset - chunkStart, end - chunkStart);
+  };
+};
+
+/**
+ * Returns a function that turns decoded frames upright, as the preview <video> shows them;
+ * phone footage is often stored landscape with a rotation in the track header. The caller
+ * closes the frames it returns. Without a rotation, frames are passed through.
+ */
+const createRotator = (rotation: number) => {
+  if (rotation === 0) return null;
+  const canvas = new OffscreenCanvas(1, 1);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new WebCodecsUnsupportedError("OffscreenCanvas 2D context unavailable.");
+  const sideways = rotation % 180 !== 0;
+
+  return (frame: VideoFrame): VideoFrame => {
+    const width = sideways ? frame.displayHeight : frame.displayWidth;
+    const height = sideways ? frame.displayWidth : frame.displayHeight;
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+    ctx.setTransform(1, 0, 0, 1, width / 2, height / 2);
+    ctx.rotate((rotation * Math.PI) / 180);
+    ctx.drawImage(frame, -frame.displayWidth / 2, -frame.displayHeight / 2);
+    return new VideoFrame(canvas, { timestamp: frame.timestamp, duration: frame.duration ?? undefined });
+  };
+};
+
+// Index of the last keyframe at or before `timeUs`, so decoding can start there
+const findStartSample = (samples: Sample[], timeUs: number): number => {
+  let index = 0;
+  samples.forEach((sample, i) => {
+    if (sample.is_sync && (sample.cts * 1e6) / sample.timescale <= timeUs) index = i;
+  });
+  return index;
+};
+
+const waitForQueue = async (getSize: () => number) => {
+  while (getSize() > MAX_QUEUE_SIZE) {
+    await new Promise(r => setTimeout(r, 1));
+  }
+};
+
+/**
+ * Decodes the audio track of an MP4/MOV file between `start` and `end` (seconds) with
+ * AudioDecoder, reading only the packets in that range so long files never sit in memory whole.
+ * The buffer starts at `start`, at the track's own sample rate. Returns null when there is no
+ * audio in the range; throws WebCodecsUnsupportedError when the file or codec can't go this way.
+ */
+export const decodeAudioRange = async (file: File, start: number, end: number): Promise<AudioBuffer | null> => {
+  if (typeof AudioDecoder === "undefined") {
+    throw new WebCodecsUnsupportedError("AudioDecoder is not available in this browser.");
+  }
+
+  const { isoFile, info } = await readMovie(file);
+  const track = info.audioTracks[0];
+  if (!track?.audio) return null;
+
+  const trak = isoFile.getTrackById(track.id);
+  const config: AudioDecoderConfig = {
+    codec: track.codec === "Opus" ? "opus" : track.codec,
+    sampleRate: track.audio.sample_rate,
+    numberOfChannels: track.audio.channel_count,
+    description: getAudioDescription(trak.mdia.minf.stbl.stsd.entries[0]),
+  };
+  const support = await AudioDecoder.isConfigSupported(config);
+  if (!support.supported) throw new WebCodecsUnsupportedError(`Cannot decode ${config.codec}.`);
+
+  const startUs = start * 1e6;
+  const endUs = end * 1e6;
+  // Allocated on the first output, whose rate can differ from the header's (HE-AAC doubles it)
+  let buffer: AudioBuffer | null = null;
+  let decodeError: unknown = null;
+
+  const decoder = new AudioDecoder({
+    output: (data) => {
+      try {
+        buffer ??= new AudioBuffer({
+          length: Math.max(1, Math.ceil((end - start) * data.sampleRate)),
+          numberOfChannels: data.numberOfChannels,
+          sampleRate: data.sampleRate,
+        });
+        // Where this packet lands in the range; the parts before the in point or past the out point are cut
+        const offset = Math.round(((data.timestamp - startUs) / 1e6) * buffer.sampleRate);
+        const skip = Math.max(0, -offset);
+        const frames = Math.min(data.numberOfFrames, buffer.length - offset) - skip;
+        if (frames <= 0) return;
+        const plane = new Float32Array(frames);
+        for (let c = 0; c < Math.min(buffer.numberOfChannels, data.numberOfChannels); c++) {
+          data.copyTo(plane, { planeIndex: c, frameOffset: skip, frameCount: frames, format: "f32-planar" });
+          buffer.copyToChannel(plane, c, offset + skip);
+        }
+      } catch (e) {
+        decodeError ??= e;
+      } finally {
+        data.close();
+      }
+    },
+    error: (e) => { decodeError ??= e; },
+  });
+  decoder.configure(config);
+
+  // Start one packet early: each decoded packet overlaps the one before it
+  const samples = trak.samples;
+  const first = samples.findIndex(sample => ((sample.cts + sample.duration) * 1e6) / sample.timescale > startUs);
+  const readSample = createSampleReader(file);
+  for (const sample of first === -1 ? [] : samples.slice(Math.max(0, first - 1))) {
+    const timestamp = (sample.cts * 1e6) / sample.timescale;
+    if (decodeError || timestamp >= endUs) break;
+    try {
+      decoder.decode(new EncodedAudioChunk({
+        type: sample.is_sync ? "key" : "delta",
+        timestamp,
+        duration: (sample.duration * 1e6) / sample.timescale,
+        data: await readSample(sample),
+      }));
+    } catch (e) {
+      decodeError = e;
+      break;
+    }
+    await waitForQueue(() => decoder.decodeQueueSize);
+  }
+
+  if (!decodeError) {
+    try {
+      await decoder.flush();
+    } catch (e) {
+      decodeError ??= e;
+    }
+  }
+  if (decoder.state !== "closed") decoder.close();
+  if (decodeError) throw decodeError;
+  return buffer;
+};
+
+const pickVideoEncoderConfig = async (
+  candidates: CodecCandidate[],
+  width: number,
+  height: number,
+  bitrate: number,
+  framerate: number
+): Promise<{ config: VideoEncoderConfig; muxerCodec: string }> => {
+  for (const candidate of candidates) {
+    const config: VideoEncoderConfig = { codec: candidate.codec, width, height, bitrate, framerate };
+    const support = await VideoEncoder.isConfigSupported(config);
+    if (support.supported) return { config, muxerCodec: candidate.muxerCodec };
+  }
+
+  throw new WebCodecsUnsupportedError(`No supported encoder among ${candidates.map(c => c.codec).join(", ")}.`);
+};
+
+const pickAudioEncoderConfig = async (
+  candidates: CodecCandidate[],
+  audio: PcmAudio
+): Promise<{ config: AudioEncoderConfig; muxerCodec: string }> => {
+  for (const candidate of candidates) {
+    const config: AudioEncoderConfig = {
+      codec: candidate.codec,
+      sampleRate: audio.sampleRate,
+      numberOfChannels: audio.numberOfChannels,
+      bitrate: 128000,
+    };
+    const support = await AudioEncoder.isConfigSupported(config);
+    if (support.supported) return { config, muxerCodec: candidate.muxerCodec };
+  }
+
+  throw new WebCodecsUnsupportedError(`No supported encoder among ${candidates.map(c => c.codec).join(", ")}.`);
+};
+
+const encodeAudio = async (
+  audio: PcmAudio,
+  config: AudioEncoderConfig,
+  muxers: ContainerMuxer[]
+) => {
+  let encoderError: unknown = null;
+  const encoder = new AudioEncoder({
+    output: (chunk, meta) => muxers.forEach(muxer => muxer.addAudioChunk(chunk, meta)),
+    error: (e) => { encoderError = e; },
+  });
+  encoder.configure(config);
+
+  for (let offset = 0; offset < audio.length; offset += AUDIO_CHUNK_FRAMES) {
+    const frames = Math.min(AUDIO_CHUNK_FRAMES, audio.length - offset);
+    const planar = new Float32Array(frames * audio.numberOfChannels);
+    for (let c = 0; c < audio.numberOfChannels; c++) {
+      planar.set(audio.getChannelData(c).subarray(offset, offset + frames), c * frames);
+    }
+
+    const data = new AudioData({
+      format: "f32-planar",
+      sampleRate: audio.sampleRate,
+      numberOfFrames: frames,
+      numberOfChannels: audio.numberOfChannels,
+      timestamp: Math.round((offset / audio.sampleRate) * 1e6),
+      data: planar,
+    });
+    encoder.encode(data);
+    data.close();
+    await waitForQueue(() => encoder.encodeQueueSize);
+  }
+
+  if (!encoderError) await encoder.flush();
+  // An encoder that failed has closed itself, and closing it again would throw over the real error
+  if (encoder.state !== "closed") encoder.close();
+  if (encoderError) throw encoderError;
+};
+
+interface OutputPipeline {
+  canvas: OffscreenCanvas;
+  ctx: OffscreenCanvasRenderingContext2D;
+  encoder: VideoEncoder;
+  muxer: ContainerMuxer;
+  renderFrame: FrameRenderer;
+  // Set when resampling to a constant rate; frames are placed in slots of 1/frameRate
+  frameRate?: number;
+  lastSlot: number;
+  encodedFrames: number;
+  keyFrameInterval: number;
+}
+
+/**
+ * Decodes the source once with VideoDecoder, composes every frame through each output's
+ * `renderFrame` and re-encodes all outputs in the requested container, as fast as the machine allows.
+ */
+export const exportWithWebCodecs = async ({
+  file,
+  format,
+  outputs,
+  trimStart,
+  trimEnd,
+  audio,
+  control,
+  onProgress,
+}: WebCodecsExportOptions): Promise<Blob[]> => {
+  if (!isWebCodecsSupported()) {
+    throw new WebCodecsUnsupportedError("WebCodecs is not available in this browser.");
+  }
+
+  const demuxed = await demuxVideo(file);
+  const decoderSupport = await VideoDecoder.isConfigSupported(demuxed.decoderConfig);
+  if (!decoderSupport.supported) {
+    throw new WebCodecsUnsupportedError(`Cannot decode ${demuxed.decoderConfig.codec}.`);
+  }
+
+  const startUs = Math.max(0, (trimStart ?? 0) * 1e6);
+  const endUs = Math.min(demuxed.durationUs, trimEnd !== undefined ? trimEnd * 1e6 : Infinity);
+  const rangeUs = endUs - startUs;
+
+  const formatSpec = OUTPUT_FORMATS[format];
+  const audioEncoding = audio ? await pickAudioEncoderConfig(formatSpec.audioCodecs, audio) : null;
+
+  let pipelineError: unknown = null;
+  const pipelines: OutputPipeline[] = [];
+
+  for (const output of outputs) {
+    // Most encoders reject odd dimensions
+    const width = Math.round(output.outputSize.width / 2) * 2;
+    const height = Math.round(output.outputSize.height / 2) * 2;
+    const frameRate = output.frameRate ?? demuxed.frameRate;
+    const { config: encoderConfig, muxerCodec } = await pickVideoEncoderConfig(
+      output.videoCodecs, width, height, output.getVideoBitrate(frameRate), frameRate
+    );
+
+    const muxer = createContainerMuxer(
+      format,
+      { muxerCodec, width, height, frameRate },
+      audio && audioEncoding
+        ? { muxerCodec: audioEncoding.muxerCodec, sampleRate: audio.sampleRate, numberOfChannels: audio.numberOfChannels }
+        : undefined
+    );
+
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext("2d", { alpha: false });
+    if (!ctx) throw new WebCodecsUnsupportedError("OffscreenCanvas 2D context unavailable.");
+
+    const encoder = new VideoEncoder({
+      output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+      error: (e) => { pipelineError = e; },
+    });
+    encoder.configure(encoderConfig);
+
+    pipelines.push({
+      canvas,
+      ctx,
+      encoder,
+      muxer,
+      renderFrame: output.renderFrame,
+      frameRate: output.frameRate,
+      lastSlot: -1,
+      encodedFrames: 0,
+      keyFrameInterval: Math.round(frameRate * 2),
+    });
+  }
+
+  // Encodes whatever is on the pipeline's canvas
+  const encodeCanvas = (pipeline: OutputPipeline, timestamp: number, duration?: number) => {
+    const composed = new VideoFrame(pipeline.canvas, { timestamp, duration });
+    pipeline.encoder.encode(composed, { keyFrame: pipeline.encodedFrames % pipeline.keyFrameInterval === 0 });
+    composed.close();
+    pipeline.encodedFrames++;
+  };
+
+  const rotate = createRotator(demuxed.rotation);
+
+  const decoder = new VideoDecoder({
+    output: (decoded) => {
+      let frame = decoded;
+      try {
+        // Frames decoded from the keyframe before the in point, or past the out point, are dropped
+        if (decoded.timestamp < startUs || decoded.timestamp >= endUs) return;
+        if (rotate) frame = rotate(decoded);
+        const time = frame.timestamp - startUs;
+
+        for (const pipeline of pipelines) {
+          if (!pipeline.frameRate) {
+            pipeline.renderFrame(pipeline.ctx, frame);
+            encodeCanvas(pipeline, time, frame.duration ?? undefined);
+            continue;
+          }
+
+          // Resample to a constant rate: drop frames that land in a filled slot, repeat the
+          // previous picture for slots the source skipped over
+          const slotDuration = 1e6 / pipeline.frameRate;
+          const slot = Math.round(time / slotDuration);
+          if (slot <= pipeline.lastSlot) continue;
+          if (pipeline.lastSlot >= 0) {
+            for (let gap = pipeline.lastSlot + 1; gap < slot; gap++) {
+              encodeCanvas(pipeline, Math.round(gap * slotDuration), Math.round(slotDuration));
+            }
+          }
+          pipeline.renderFrame(pipeline.ctx, frame);
+          encodeCanvas(pipeline, Math.round(slot * slotDuration), Math.round(slotDuration));
+          pipeline.lastSlot = slot;
+        }
+        onProgress?.(Math.min(100, ((frame.timestamp - startUs) / rangeUs) * 100));
+      } catch (e) {
+        pipelineError = e;
+      } finally {
+        if (frame !== decoded) frame.close();
+        decoded.close();
+      }
+    },
+    error: (e) => { pipelineError = e; },
+  });
+  decoder.configure(demuxed.decoderConfig);
+
+  const encodeQueueSize = () => Math.max(...pipelines.map(p => p.encoder.encodeQueueSize));
+
+  const readSample = createSampleReader(file);
+  const samples = demuxed.samples.slice(findStartSample(demuxed.samples, startUs));
+  for (const sample of samples) {
+    if (pipelineError) break;
+    // Decode order can run slightly ahead of presentation order (B-frames), so allow a margin
+    if ((sample.dts * 1e6) / sample.timescale > endUs + 1e6) break;
+
+    try {
+      await control?.checkpoint();
+      decoder.decode(new EncodedVideoChunk({
+        type: sample.is_sync ? "key" : "delta",
+        timestamp: (sample.cts * 1e6) / sample.timescale,
+        duration: (sample.duration * 1e6) / sample.timescale,
+        data: await readSample(sample),
+      }));
+    } catch (e) {
+      pipelineError = e;
+      break;
+    }
+    await waitForQueue(() => decoder.decodeQueueSize + encodeQueueSize());
+  }
+
+  if (!pipelineError) {
+    try {
+      await decoder.flush();
+      await Promise.all(pipelines.map(p => p.encoder.flush()));
+    } catch (e) {
+      pipelineError ??= e;
+    }
+  }
+  // Codecs that reported an error have closed themselves; closing them again would throw
+  // InvalidStateError over the error that actually stopped the export
+  if (decoder.state !== "closed") decoder.close();
+  pipelines.forEach(p => { if (p.encoder.state !== "closed") p.encoder.close(); });
+  if (pipelineError) throw pipelineError;
+
+  // Audio is identical for every output: encode it once and hand the chunks to every muxer
+  if (audio && audioEncoding) {
+    await control?.checkpoint();
+    await encodeAudio(audio, audioEncoding.config, pipelines.map(p => p.muxer));
+  }
+
+  const blobs = pipelines.map(p => p.muxer.finalize());
+  onProgress?.(100);
+  return blobs;
+};
@@ -17,22 +17,175 @@ export const translations = {
     processingNote: "Video processing happens locally in your browser. Large files may take longer.",
     previewExport: "Preview & Export",
     startOver: "Start Over",
+    batchAiBackground: "AI backgrounds aren't generated in the batch queue. Padded areas use the background color instead.",
     processingVideo: "Processing Video...",
     doNotClose: "Please do not close this tab.",
     dreamingBackground: "Dreaming up a background...",
     maintainRatio: "Maintain Video Ratio",
     output: "Output",
     resetStart: "Reset to Start",
+    trimIn: "In",
+    trimOut: "Out",
     downloadVideo: "Download Video",
     processingDownload: "Processing Download...",
     generateAnother: "Generate Another",
     renderingVideo: "Rendering Video...",
+    exportPaused: "Export Paused",
+    pauseExport: "Pause",
+    resumeExport: "Resume",
+    cancelExport: "Cancel",
     waitMoment: "This may take a moment. Please wait.",
     background: "Background",
     color: "Color",
+    fromVideo: "From video",
+    autoBackgroundColor: "Auto: follow the video's colors",
     aiBackground: "AI Texture",
+    suggestBackgrounds: "Suggest backgrounds",
+    suggesting: "Looking at your video...",
+    useSuggestion: "Use this prompt and generate",
+    extendScene: "Extend Scene",
+    extendSceneHint: "Scrub to a frame, then let the AI continue the scene into the padding.",
+    extendFromFrame: "Extend from",
+    extendedFrom: "Extended from",
+    showFrame: "Show frame",
+    provider: "Provider",
+    providers: {
+      'gemini': "Gemini",
+      'local': "Local server",
+      'mock': "Offline (procedural)",
+    },
+    localEndpoint: "Text-to-image endpoint URL",
+    errorMissingKey: "No API key is set for this provider. Add one or switch to another provider.",
+    errorQuota: "The provider's quota or rate limit was reached. Try again later or switch provider.",
+    errorEmptyResponse: "The provider returned no image. Try a different prompt.",
+    errorGenerateFailed: "Failed to generate background. Try again.",
+    backgroundGallery: "Your Backgrounds",
+    variations: "Variations",
+    reusePrompt: "Reuse prompt",
+    deleteBackground: "Delete",
+    blurredVideo: "Blur",
+    gradient: "Gradient",
+    image: "Image",
+    video: "Video",
+    linear: "Linear",
+    radial: "Radial",
+    angle: "Angle",
+    addStop: "Add Color Stop",
+    uploadBackgroundImage: "Upload Image",
+    uploadBackgroundVideo: "Upload Video",
+    loadingBackground: "Loading background...",
+    backgroundLoadFailed: "Could not load the background file.",
+    fit: "Fit",
+    fits: {
+      'cover': "Cover",
+      'contain': "Contain",
+      'stretch': "Stretch",
+    },
+    blurRadius: "Blur",
+    dimAmount: "Dim",
+    zoom: "Zoom",
+    sourceCrop: "Source Crop",
+    sourceCropHint: "Cuts bars baked into the video off before it's resized. Drag the edges or corners to adjust.",
+    detectingBars: "Looking for black bars...",
+    barsDetected: "Bars found around the picture",
+    noBarsFound: "No bars found",
+    applyCrop: "Crop them",
+    resetCrop: "Reset",
+    cropPath: "Crop Path",
+    recentre: "Re-center",
+    autoReframe: "Auto Reframe",
+    analysing: "Analyzing...",
+    subtitles: "Subtitles",
+    loadSubtitles: "Load .srt / .vtt",
+    noCuesFound: "No subtitle cues found in this file.",
+    cues: "cues",
+    fontSize: "Size",
+    verticalPosition: "Position",
+    textColor: "Color",
+    outline: "Outline",
+    box: "Box",
+    overlays: "Layers",
+    addLogo: "Add Logo",
+    addText: "Add Text",
+    logo: "Logo",
+    defaultOverlayText: "Title",
+    overlayLoadFailed: "Could not load this image.",
+    positionX: "X",
+    positionY: "Y",
+    layerScale: "Scale",
+    opacity: "Opacity",
+    layerStart: "Start",
+    layerEnd: "End",
+    colorGrading: "Color",
+    resetColor: "Reset color",
+    exposure: "Exposure",
+    contrast: "Contrast",
+    saturation: "Saturation",
+    temperature: "Warmth",
+    vignette: "Vignette",
+    sharpen: "Sharpen",
+    loadLut: "Load .cube LUT",
+    lutLoadFailed: "Could not load the LUT file.",
+    audio: "Audio",
+    originalVolume: "Original",
+    muteOriginal: "Mute original audio",
+    addMusic: "Add Music",
+    musicVolume: "Music",
+    ducking: "Lower music while the original is loud",
+    fadeIn: "Fade In",
+    fadeOut: "Fade Out",
+    exportSettings: "Export Settings",
+    frameRate: "Frame Rate",
+    sourceFrameRate: "Source",
+    quality: "Quality",
+    qualities: {
+      'Low': 'Low',
+      'Medium': 'Medium',
+      'High': 'High',
+      'Custom': 'Custom Bitrate'
+    },
+    bitrate: "Bitrate",
+    codec: "Codec",
+    autoCodec: "Auto",
+    resolutionScale: "Scale",
+    preset: "Preset",
+    choosePreset: "Choose a preset...",
+    platformPresets: "Platforms",
+    myPresets: "My Presets",
+    savePreset: "Save current settings as preset",
+    deletePreset: "Delete preset",
+    importPresets: "Import presets (JSON)",
+    exportPresets: "Export my presets (JSON)",
+    presetName: "Preset name",
+    save: "Save",
+    presetSaveFailed: "Could not save presets in this browser.",
+    presetImportFailed: "Could not import presets.",
+    limitDuration: "Longer than this platform allows",
+    limitFileSize: "Larger than this platform allows",
+    dragToReframe: "Drag the preview to reframe. Each drag sets a keyframe at the current time.",
     promptPlaceholder: "Describe the background texture...",
     generate: "Generate Background",
+    outputFormat: "Output Format",
+    exportTargets: "Export Targets",
+    addCustomTarget: "Add custom size",
+    sameAsEditor: "Editor mode",
+    downloadAllZip: "Download All (ZIP)",
+    batchQueue: "Batch Queue",
+    addVideos: "Add Videos",
+    startQueue: "Start Queue",
+    retry: "Retry",
+    skip: "Skip",
+    remove: "Remove",
+    sharedSetting: "Shared",
+    queueStatus: {
+      IDLE: 'Idle',
+      QUEUED: 'Queued',
+      GENERATING_BACKGROUND: 'Preparing',
+      RECORDING: 'Rendering',
+      COMPLETED: 'Done',
+      SKIPPED: 'Skipped',
+      ERROR: 'Failed'
+    },
     ratios: {
       '1:1': '1:1',
       '9:16': '9:16',
@@ -45,6 +198,10 @@ export const translations = {
       'Contain (Pad)': 'Contain',
       'Stretch (Fill)': 'Stretch',
       'Cover (Crop)': 'Cover'
+    },
+    formats: {
+      'MP4': 'MP4 (H.264)',
+      'WebM': 'WebM (VP9)'
     }
   },
   pt: {
@@ -65,22 +222,175 @@ export const translations = {
     processingNote: "O processamento ocorre localmente no navegador. Arquivos grandes podem demorar.",
     previewExport: "Prévia e Exportação",
     startOver: "Recomeçar",
+    batchAiBackground: "Fundos de IA não são gerados na fila em lote. As áreas de preenchimento usam a cor de fundo.",
     processingVideo: "Processando...",
     doNotClose: "Não feche esta aba.",
     dreamingBackground: "Criando fundo...",
     maintainRatio: "Manter Proporção",
     output: "Saída",
     resetStart: "Reiniciar",
+    trimIn: "Entrada",
+    trimOut: "Saída",
     downloadVideo: "Baixar Vídeo",
     processingDownload: "Processando...",
     generateAnother: "Gerar Outro",
     renderingVideo: "Renderizando...",
+    exportPaused: "Exportação Pausada",
+    pauseExport: "Pausar",
+    resumeExport: "Retomar",
+    cancelExport: "Cancelar",
     waitMoment: "Aguarde um momento.",
     background: "Fundo",
     color: "Cor",
+    fromVideo: "Do vídeo",
+    autoBackgroundColor: "Automático: seguir as cores do vídeo",
     aiBackground: "Textura IA",
+    suggestBackgrounds: "Sugerir fundos",
+    suggesting: "Analisando seu vídeo...",
+    useSuggestion: "Usar este prompt e gerar",
+    extendScene: "Estender Cena",
+    extendSceneHint: "Escolha um quadro e deixe a IA continuar a cena no preenchimento.",
+    extendFromFrame: "Estender de",
+    extendedFrom: "Estendido de",
+    showFrame: "Ver quadro",
+    provider: "Provedor",
+    providers: {
+      'gemini': "Gemini",
+      'local': "Servidor local",
+      'mock': "Offline (procedural)",
+    },
+    localEndpoint: "URL do endpoint texto-para-imagem",
+    errorMissingKey: "Nenhuma chave de API configurada para este provedor. Adicione uma ou troque de provedor.",
+    errorQuota: "A cota ou o limite de requisições do provedor foi atingido. Tente mais tarde ou troque de provedor.",
+    errorEmptyResponse: "O provedor não retornou nenhuma imagem. Tente outro prompt.",
+    errorGenerateFailed: "Falha ao gerar o fundo. Tente novamente.",
+    backgroundGallery: "Seus Fundos",
+    variations: "Variações",
+    reusePrompt: "Reutilizar prompt",
+    deleteBackground: "Excluir",
+    blurredVideo: "Desfoque",
+    gradient: "Gradiente",
+    image: "Imagem",
+    video: "Vídeo",
+    linear: "Linear",
+    radial: "Radial",
+    angle: "Ângulo",
+    addStop: "Adicionar Cor",
+    uploadBackgroundImage: "Enviar Imagem",
+    uploadBackgroundVideo: "Enviar Vídeo",
+    loadingBackground: "Carregando fundo...",
+    backgroundLoadFailed: "Não foi possível carregar o arquivo de fundo.",
+    fit: "Ajuste",
+    fits: {
+      'cover': "Preencher",
+      'contain': "Conter",
+      'stretch': "Esticar",
+    },
+    blurRadius: "Desfoque",
+    dimAmount: "Escurecer",
+    zoom: "Zoom",
+    sourceCrop: "Corte da Origem",
+    sourceCropHint: "Remove as barras gravadas no vídeo antes de redimensioná-lo. Arraste as bordas ou os cantos para ajustar.",
+    detectingBars: "Procurando barras pretas...",
+    barsDetected: "Barras encontradas em volta da imagem",
+    noBarsFound: "Nenhuma barra encontrada",
+    applyCrop: "Cortar",
+    resetCrop: "Redefinir",
+    cropPath: "Caminho do Corte",
+    recentre: "Centralizar",
+    autoReframe: "Reenquadrar Automaticamente",
+    analysing: "Analisando...",
+    subtitles: "Legendas",
+    loadSubtitles: "Carregar .srt / .vtt",
+    noCuesFound: "Nenhuma legenda encontrada neste arquivo.",
+    cues: "legendas",
+    fontSize: "Tamanho",
+    verticalPosition: "Posição",
+    textColor: "Cor",
+    outline: "Contorno",
+    box: "Caixa",
+    overlays: "Camadas",
+    addLogo: "Adicionar Logo",
+    addText: "Adicionar Texto",
+    logo: "Logo",
+    defaultOverlayText: "Título",
+    overlayLoadFailed: "Não foi possível carregar esta imagem.",
+    positionX: "X",
+    positionY: "Y",
+    layerScale: "Escala",
+    opacity: "Opacidade",
+    layerStart: "Início",
+    layerEnd: "Fim",
+    colorGrading: "Cor",
+    resetColor: "Redefinir cor",
+    exposure: "Exposição",
+    contrast: "Contraste",
+    saturation: "Saturação",
+    temperature: "Temperatura",
+    vignette: "Vinheta",
+    sharpen: "Nitidez",
+    loadLut: "Carregar LUT .cube",
+    lutLoadFailed: "Não foi possível carregar o arquivo LUT.",
+    audio: "Áudio",
+    originalVolume: "Original",
+    muteOriginal: "Silenciar áudio original",
+    addMusic: "Adicionar Música",
+    musicVolume: "Música",
+    ducking: "Abaixar a música quando o original estiver alto",
+    fadeIn: "Fade In",
+    fadeOut: "Fade Out",
+    exportSettings: "Configurações de Exportação",
+    frameRate: "Quadros/s",
+    sourceFrameRate: "Original",
+    quality: "Qualidade",
+    qualities: {
+      'Low': 'Baixa',
+      'Medium': 'Média',
+      'High': 'Alta',
+      'Custom': 'Bitrate Personalizado'
+    },
+    bitrate: "Bitrate",
+    codec: "Codec",
+    autoCodec: "Automático",
+    resolutionScale: "Escala",
+    preset: "Predefinição",
+    choosePreset: "Escolha uma predefinição...",
+    platformPresets: "Plataformas",
+    myPresets: "Minhas Predefinições",
+    savePreset: "Salvar configurações atuais como predefinição",
+    deletePreset: "Excluir predefinição",
+    importPresets: "Importar predefinições (JSON)",
+    exportPresets: "Exportar minhas predefinições (JSON)",
+    presetName: "Nome da predefinição",
+    save: "Salvar",
+    presetSaveFailed: "Não foi possível salvar as predefinições neste navegador.",
+    presetImportFailed: "Não foi possível importar as predefinições.",
+    limitDuration: "Mais longo do que esta plataforma permite",
+    limitFileSize: "Maior do que esta plataforma permite",
+    dragToReframe: "Arraste a prévia para reenquadrar. Cada arraste cria um keyframe no tempo atual.",
     promptPlaceholder: "Descreva a textura do fundo...",
     generate: "Gerar Fundo",
+    outputFormat: "Formato de Saída",
+    exportTargets: "Destinos de Exportação",
+    addCustomTarget: "Adicionar tamanho",
+    sameAsEditor: "Modo do editor",
+    downloadAllZip: "Baixar Tudo (ZIP)",
+    batchQueue: "Fila de Processamento",
+    addVideos: "Adicionar Vídeos",
+    startQueue: "Iniciar Fila",
+    retry: "Tentar Novamente",
+    skip: "Pular",
+    remove: "Remover",
+    sharedSetting: "Padrão",
+    queueStatus: {
+      IDLE: 'Parado',
+      QUEUED: 'Na fila',
+      GENERATING_BACKGROUND: 'Preparando',
+      RECORDING: 'Renderizando',
+      COMPLETED: 'Concluído',
+      SKIPPED: 'Pulado',
+      ERROR: 'Falhou'
+    },
     ratios: {
       '1:1': '1:1',
       '9:16': '9:16',
@@ -93,6 +403,10 @@ export const translations = {
       'Contain (Pad)': 'Conter',
       'Stretch (Fill)': 'Esticar',
       'Cover (Crop)': 'Cobrir'
+    },
+    formats: {
+      'MP4': 'MP4 (H.264)',
+      'WebM': 'WebM (VP9)'
     }
   }
 };
\ No newline at end of file
@@ -13,25 +13,220 @@ export enum ScaleMode {
   COVER = 'Cover (Crop)'
 }
 
+// What fills the padding around the video in CONTAIN mode
+export enum BackgroundType {
+  COLOR = 'Color',
+  GRADIENT = 'Gradient',
+  IMAGE = 'Image',
+  VIDEO = 'Video',
+  AI = 'AI',
+  // An AI outpaint of one of the video's own frames, continuing the scene into the padding
+  EXTENDED_SCENE = 'Extended Scene',
+  BLURRED_VIDEO = 'Blurred Video'
+}
+
+export interface GradientStop {
+  // Position along the gradient, 0-1
+  offset: number;
+  color: string;
+}
+
+export interface BackgroundGradient {
+  kind: 'linear' | 'radial';
+  // Linear direction in degrees, like CSS: 0 runs bottom to top, 90 left to right
+  angle: number;
+  stops: GradientStop[];
+}
+
+// How an uploaded background image or video fills the frame
+export type BackgroundFit = 'cover' | 'contain' | 'stretch';
+
+export const BACKGROUND_FITS: BackgroundFit[] = ['cover', 'contain', 'stretch'];
+
+export enum OutputFormat {
+  MP4 = 'MP4',
+  WEBM = 'WebM'
+}
+
+export enum VideoCodec {
+  H264 = 'H.264',
+  HEVC = 'HEVC',
+  VP9 = 'VP9',
+  VP8 = 'VP8',
+  AV1 = 'AV1'
+}
+
+export enum ExportQuality {
+  LOW = 'Low',
+  MEDIUM = 'Medium',
+  HIGH = 'High',
+  CUSTOM = 'Custom'
+}
+
 export interface Dimensions {
   width: number;
   height: number;
 }
 
+export interface Rect extends Dimensions {
+  x: number;
+  y: number;
+}
+
 export enum ProcessingState {
   IDLE = 'IDLE',
+  QUEUED = 'QUEUED',
   GENERATING_BACKGROUND = 'GENERATING_BACKGROUND',
   RECORDING = 'RECORDING',
   COMPLETED = 'COMPLETED',
+  SKIPPED = 'SKIPPED',
   ERROR = 'ERROR'
 }
 
+// Where the Cover crop is centred at a point in time, in normalised source coordinates (0-1)
+export interface FocalKeyframe {
+  time: number;
+  x: number;
+  y: number;
+}
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface SubtitleStyle {
+  fontFamily: string;
+  // Pixels at 1080p; scaled with the output's shorter side
+  fontSize: number;
+  color: string;
+  outlineColor: string;
+  outlineWidth: number;
+  showBox: boolean;
+  boxColor: string;
+  boxOpacity: number;
+  // Preferred centre of the caption block, 0 (top) to 1 (bottom)
+  position: number;
+}
+
+interface OverlayLayerBase {
+  id: string;
+  // Centre of the layer as a fraction of the output frame (0-1)
+  x: number;
+  y: number;
+  // Image width or text size as a fraction of the output's shorter side
+  scale: number;
+  opacity: number;
+  // Visible range in source seconds; no end means until the end of the video
+  start: number;
+  end?: number;
+}
+
+export interface ImageLayer extends OverlayLayerBase {
+  kind: 'image';
+  // Data URL so the layer survives being saved with the config
+  src: string;
+}
+
+export interface TextLayer extends OverlayLayerBase {
+  kind: 'text';
+  text: string;
+  color: string;
+  fontFamily: string;
+}
+
+export type OverlayLayer = ImageLayer | TextLayer;
+
+export interface AudioSettings {
+  // Linear gain for the source's own audio track
+  originalGain: number;
+  muteOriginal: boolean;
+  // Optional music under (or, with muteOriginal, instead of) the original audio; loops to fill
+  music: File | null;
+  musicGain: number;
+  // Lower the music while the original audio is loud
+  ducking: boolean;
+  // Fade lengths in seconds at the start/end of the exported range
+  fadeIn: number;
+  fadeOut: number;
+}
+
+// Upload limits of a target platform; exports that exceed them get a warning
+export interface PresetLimits {
+  // Seconds
+  maxDuration?: number;
+  // Bytes
+  maxFileSize?: number;
+}
+
+// Per-video grading, all 0 for "as shot". Exposure is in stops (-2..2), the rest -1..1 except
+// vignette and sharpen, which go 0..1.
+export interface ColorAdjustments {
+  exposure: number;
+  contrast: number;
+  saturation: number;
+  // Negative is cooler (blue), positive warmer (orange)
+  temperature: number;
+  vignette: number;
+  sharpen: number;
+}
+
+// A 3D lookup table from a .cube file; `data` holds size^3 RGB triples, red changing fastest
+export interface ColorLut {
+  name: string;
+  size: number;
+  data: Float32Array;
+  domainMin: [number, number, number];
+  domainMax: [number, number, number];
+}
+
 export interface VideoConfig {
   aspectRatio: AspectRatio;
   scaleMode: ScaleMode;
   backgroundColor: string;
-  useAIBackground: boolean;
+  // Follow the video's average color over time instead of backgroundColor (Color background only)
+  autoBackgroundColor: boolean;
+  backgroundType: BackgroundType;
+  // Blurred video, image and video backgrounds: blur radius in output pixels, dim 0-1.
+  // Zoom (>= 1) only applies to the blurred video.
+  backgroundBlur: number;
+  backgroundDim: number;
+  backgroundZoom: number;
+  backgroundGradient: BackgroundGradient;
+  // Uploaded still (IMAGE) or looping clip (VIDEO)
+  backgroundMedia: File | null;
+  backgroundFit: BackgroundFit;
   aiPrompt: string;
+  outputFormat: OutputFormat;
+  // Output frame rate; null keeps the source rate
+  frameRate: number | null;
+  // Bitrate scales with size and frame rate, except CUSTOM which uses videoBitrate (bits/s)
+  quality: ExportQuality;
+  videoBitrate: number;
+  // null picks the first codec the browser supports for the format
+  videoCodec: VideoCodec | null;
+  // Multiplies the base output size, e.g. 0.5 for 540x960 instead of 1080x1920
+  resolutionScale: number;
+  // Set by the last applied preset
+  limits?: PresetLimits;
+  // Part of the source that is kept, in fractions of its size, applied before the layout;
+  // null keeps all of it. Cuts off baked-in letterbox or pillarbox bars.
+  sourceCrop: Rect | null;
+  // Cover crop path sorted by time, relative to the cropped source; empty means a centred crop
+  focalPath: FocalKeyframe[];
+  // Burned-in captions, timed against the source
+  subtitles: SubtitleCue[];
+  subtitleStyle: SubtitleStyle;
+  // Drawn over the composition in order, last on top
+  overlays: OverlayLayer[];
+  audio: AudioSettings;
+  color: ColorAdjustments;
+  // Applied after the color adjustments
+  lut: ColorLut | null;
+  // Export range in seconds; undefined means the start/end of the source
+  trimStart?: number;
+  trimEnd?: number;
   customWidth?: number;
   customHeight?: number;
   maintainAspectRatio?: boolean;
@@ -43,4 +238,58 @@ export const RESOLUTIONS: Record<string, Dimensions> = {
   [AspectRatio.LANDSCAPE]: { width: 1920, height: 1080 },
   [AspectRatio.CLASSIC]: { width: 1440, height: 1080 },
   [AspectRatio.VERTICAL_4_5]: { width: 1080, height: 1350 },
-};
\ No newline at end of file
+};
+
+export interface Preset {
+  id: string;
+  name: string;
+  // Settings applied on top of the current config
+  config: Partial<VideoConfig>;
+  // Built-in platform presets can't be deleted or exported
+  builtIn?: boolean;
+}
+
+// One output of a multi-target export
+export interface ExportTarget {
+  id: string;
+  // Settings that differ from the editor's VideoConfig for this output only
+  overrides: Partial<VideoConfig>;
+}
+
+export interface ExportResult {
+  fileName: string;
+  blob: Blob;
+  url: string;
+}
+
+// One input file in the batch queue
+export interface QueueItem {
+  id: string;
+  file: File;
+  status: ProcessingState;
+  progress: number;
+  // Settings that differ from the shared batch VideoConfig for this file only
+  overrides: Partial<VideoConfig>;
+  results: ExportResult[];
+  error?: string;
+}
+// An AI background kept in the local gallery so it can be reused without regenerating
+export interface GeneratedBackground {
+  id: string;
+  prompt: string;
+  // The ratio it was generated at, e.g. "9:16"
+  aspectRatio: string;
+  createdAt: number;
+  image: Blob;
+}
+
+// An outpainted "extend scene" plate, cached per source file and generation ratio
+export interface ScenePlate {
+  // From getScenePlateKey
+  key: string;
+  // Source time of the frame it was extended from, in seconds
+  frameTime: number;
+  aspectRatio: string;
+  createdAt: number;
+  image: Blob;
+}